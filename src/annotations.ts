@@ -0,0 +1,130 @@
+/**
+ * Matomo - free/libre analytics platform
+ *
+ * @link https://matomo.org
+ * @license http://www.gnu.org/licenses/gpl-3.0.html GPL v3 or later
+ */
+
+import cc, { ConnectorParams } from './connector';
+import * as Api from './api';
+import { DATE_DIMENSIONS, addDateDimensions, formatDateDimensionValue } from './dates';
+
+interface Annotation {
+  date: string;
+  note: string;
+  user: string;
+  starred: number|boolean|string;
+}
+
+const ANNOTATIONS_API_MODULE = 'Annotations';
+const ANNOTATIONS_API_ACTION = 'getAll';
+
+const ANNOTATION_DIMENSIONS: Record<string, { name: string, type: GoogleAppsScript.Data_Studio.FieldType }> = {
+  note: {
+    name: 'Note',
+    type: cc.FieldType.TEXT,
+  },
+  user: {
+    name: 'Author',
+    type: cc.FieldType.TEXT,
+  },
+  starred: {
+    name: 'Starred',
+    type: cc.FieldType.BOOLEAN,
+  },
+};
+
+/**
+ * Returns the value of the report config param for annotations, which are listed along with the
+ * processed reports from API.getReportMetadata.
+ */
+export function getAnnotationsReportParam() {
+  return JSON.stringify({ apiModule: ANNOTATIONS_API_MODULE, apiAction: ANNOTATIONS_API_ACTION });
+}
+
+// exported for tests
+export function formatAnnotationValue(fieldId: string, annotation: Annotation) {
+  if (DATE_DIMENSIONS[fieldId]) {
+    return formatDateDimensionValue(fieldId, annotation.date);
+  }
+
+  if (fieldId === 'starred') {
+    return annotation.starred && annotation.starred !== '0' ? 'true' : 'false';
+  }
+
+  if (fieldId === 'nb_annotations') {
+    return '1';
+  }
+
+  const value = annotation[fieldId];
+  return typeof value === 'undefined' || value === null ? '' : `${value}`;
+}
+
+function getAnnotationsFields(requestedFields?: string[]) {
+  const fields = cc.getFields();
+
+  const allFields = [...Object.keys(DATE_DIMENSIONS), ...Object.keys(ANNOTATION_DIMENSIONS), 'nb_annotations'];
+  (requestedFields?.length ? requestedFields : allFields).forEach((id) => {
+    if (fields.getFieldById(id)) {
+      return;
+    }
+
+    if (DATE_DIMENSIONS[id]) {
+      addDateDimensions(fields, [id]);
+    } else if (ANNOTATION_DIMENSIONS[id]) {
+      fields
+        .newDimension()
+        .setId(id)
+        .setName(ANNOTATION_DIMENSIONS[id].name)
+        .setType(ANNOTATION_DIMENSIONS[id].type);
+    } else if (id === 'nb_annotations') {
+      // Looker Studio charts need a metric to blend annotations with other data sources
+      fields
+        .newMetric()
+        .setId(id)
+        .setName('Annotations')
+        .setType(cc.FieldType.NUMBER)
+        .setIsReaggregatable(true)
+        .setAggregation(cc.AggregationType.SUM);
+    }
+  });
+
+  return fields;
+}
+
+function getAnnotations(request: GoogleAppsScript.Data_Studio.Request<ConnectorParams>) {
+  const response = Api.fetch<Record<string, Annotation[]>>(`${ANNOTATIONS_API_MODULE}.${ANNOTATIONS_API_ACTION}`, {
+    idSite: `${request.configParams.idsite}`,
+    period: 'range',
+    date: `${request.dateRange.startDate},${request.dateRange.endDate}`,
+  });
+
+  // annotations are indexed by site
+  const annotations: Annotation[] = [];
+  Object.values(response || {}).forEach((siteAnnotations) => {
+    if (Array.isArray(siteAnnotations)) {
+      annotations.push(...siteAnnotations);
+    }
+  });
+  return annotations;
+}
+
+export function getAnnotationsSchema() {
+  return { schema: getAnnotationsFields().build() };
+}
+
+export function getAnnotationsData(request: GoogleAppsScript.Data_Studio.Request<ConnectorParams>) {
+  const fields = getAnnotationsFields(request.fields?.map((f) => f.name));
+
+  const fieldIds = fields.asArray().map((f) => f.getId());
+
+  const rows = getAnnotations(request).map((annotation) => ({
+    values: fieldIds.map((id) => formatAnnotationValue(id, annotation)),
+  }));
+
+  return {
+    schema: fields.build(),
+    rows,
+    filtersApplied: false,
+  };
+}
@@ -7,14 +7,25 @@
 
 import env from './env';
 import { getScriptElapsedTime } from './connector';
-import { throwUnexpectedError, throwUserError } from './error';
+import {
+  MatomoApiAggregateError,
+  MatomoApiError,
+  MatomoApiErrorClassification,
+  throwUnexpectedError,
+  throwUserError,
+} from './error';
 import URLFetchRequest = GoogleAppsScript.URL_Fetch.URLFetchRequest;
 import { debugLog, log, logError } from './log';
 import { getServices } from './services';
+import { getCachedValue, putCachedValue } from './cache';
+import {
+  RetryStrategy,
+  getDefaultRetryStrategy,
+  getRetryDecision,
+  parseRetryAfterHeader,
+} from './retry';
 
 const SCRIPT_RUNTIME_LIMIT = parseInt(env.SCRIPT_RUNTIME_LIMIT) || 0;
-const API_REQUEST_RETRY_LIMIT_IN_SECS = parseInt(env.API_REQUEST_RETRY_LIMIT_IN_SECS) || 0;
-const MAX_WAIT_BEFORE_RETRY = 32;
 const FETCH_USER_AGENT = 'Mozilla/5.0 (X11; Ubuntu; Linux x86_64; rv:130.0) Gecko/20100101 Firefox/130.0';
 
 let API_REQUEST_EXTRA_HEADERS = {};
@@ -27,7 +38,9 @@ try {
 export interface Site {
   idsite: string|number;
   name: string;
+  main_url?: string;
   currency: string;
+  timezone?: string;
 }
 
 export interface Language {
@@ -36,6 +49,7 @@ export interface Language {
 }
 
 export interface StoredSegment {
+  idsegment?: string|number;
   name: string;
   definition: string;
 }
@@ -53,7 +67,10 @@ export interface ReportMetadata {
   name: string;
   metricTypes?: Record<string, string>;
   metricTypesGoal?: Record<string, string>;
+  metricsDocumentation?: Record<string, string>;
+  metricsGoalDocumentation?: Record<string, string>;
   parameters?: Record<string, string>;
+  actionToLoadSubTables?: string;
 }
 
 export interface Goal {
@@ -83,6 +100,8 @@ interface ApiFetchOptions {
   checkRuntimeLimit?: boolean;
   runtimeLimitAbortMessage?: string;
   throwOnFailedRequest?: boolean;
+  useBulkRequest?: boolean; // if true, the requests are sent together in a single API.getBulkRequest call
+  retryStrategy?: Partial<RetryStrategy>;
 }
 
 export function isApiErrorNonRandom(message: string) {
@@ -95,6 +114,40 @@ export function isApiErrorNonRandom(message: string) {
     || /Referrers\.getAll with multiple sites or dates is not supported/i.test(message);
 }
 
+/**
+ * Determines the kind of an error returned by Matomo so callers can react to it, eg, by retrying or by
+ * telling the user what to fix.
+ *
+ * exported for tests
+ *
+ * @param message the error message returned by Matomo
+ * @param httpCode the HTTP status code of the response, if the request failed at the HTTP level
+ */
+export function classifyApiError(message: string, httpCode?: number): MatomoApiErrorClassification {
+  if (httpCode === 429 || /rate limit|too many requests|quota/i.test(message)) {
+    return 'quota';
+  }
+
+  if (httpCode === 401
+    || httpCode === 403
+    || /You can't access this resource/i.test(message)
+    || /token_auth/i.test(message)
+    || /not authenticated|must be logged in/i.test(message)
+  ) {
+    return 'auth';
+  }
+
+  if (/The plugin \w+ is not enabled/i.test(message)) {
+    return 'plugin-disabled';
+  }
+
+  if (typeof httpCode === 'number' || isApiErrorNonRandom(message)) {
+    return 'non-random';
+  }
+
+  return 'random';
+}
+
 export function extractBasicAuthFromUrl(url: string): { authHeaders: Record<string, string>, urlWithoutAuth: string } {
   const authHeaders: Record<string, string> = {};
 
@@ -111,11 +164,23 @@ export function extractBasicAuthFromUrl(url: string): { authHeaders: Record<stri
   return { authHeaders, urlWithoutAuth: url };
 }
 
+export function getInstanceUrl() {
+  const instanceUrl = PropertiesService.getUserProperties().getProperty('dscc.username') || '';
+  const { urlWithoutAuth } = extractBasicAuthFromUrl(instanceUrl);
+  return urlWithoutAuth.replace(/\/+(index\.php\??)?$/, '');
+}
+
 function isUrlFetchErrorQuotaLimitReachedError(errorMessage: unknown) {
   return typeof errorMessage === 'string'
     && errorMessage.toLowerCase().includes('service invoked too many times for one day: urlfetch')
 }
 
+function getRetryAfterHeader(response: GoogleAppsScript.URL_Fetch.HTTPResponse) {
+  const headers = response.getHeaders() as Record<string, string>;
+  const name = Object.keys(headers || {}).find((h) => h.toLowerCase() === 'retry-after');
+  return name ? headers[name] : null;
+}
+
 function isUrlFetchErrorProbablyTemporary(errorMessage: unknown) {
   return typeof errorMessage === 'string'
     && (
@@ -134,15 +199,10 @@ function isUrlFetchErrorProbablyTemporary(errorMessage: unknown) {
  */
 export function fetchAll(requests: MatomoRequestParams[], options: ApiFetchOptions = {}): any[] {
   // TODO: this method could probably be cleaned up
-  const cache = CacheService.getUserCache();
   if (options.cacheKey && options.cacheTtl > 0) {
-    const cacheEntry = cache.get(options.cacheKey);
-    if (typeof cacheEntry !== 'undefined' && cacheEntry !== null) {
-      try {
-        return JSON.parse(cacheEntry);
-      } catch (e) {
-        logError(new Error(`failed to parse cache data for ${options.cacheKey}`), 'api client');
-      }
+    const cacheEntry = getCachedValue<any[]>(options.cacheKey);
+    if (cacheEntry !== null) {
+      return cacheEntry;
     }
   }
 
@@ -182,25 +242,48 @@ export function fetchAll(requests: MatomoRequestParams[], options: ApiFetchOptio
 
   const allUrlsMappedToIndex = Object.fromEntries(allUrls.map((url, i) => [url, i]));
 
+  const retryStrategy: RetryStrategy = { ...getDefaultRetryStrategy(), ...options.retryStrategy };
+
   let responseContents: any[] = [];
-  let currentWaitBeforeRetryTime = 1000;
+  let attempt = 0;
+
+  // the HTTP status, body and Retry-After of requests that last failed at the HTTP level, by request index
+  const httpFailures: Record<number, { httpCode: number, body: string, retryAfterMs?: number|null }> = {};
 
   const startTime = Date.now();
-  while (Object.keys(allUrlsMappedToIndex).length && Date.now() < startTime + API_REQUEST_RETRY_LIMIT_IN_SECS * 1000) {
+  const abortForRuntimeLimit = () => {
+    const allRequests = Object.keys(allUrlsMappedToIndex).join(', ');
+    let message = options.runtimeLimitAbortMessage || 'This request is taking too long, aborting.';
+    message = `${message} (Requests being sent: ${allRequests}).`;
+    throwUnexpectedError(new Error(message), 'api client');
+  };
+
+  while (Object.keys(allUrlsMappedToIndex).length) {
     if (options.checkRuntimeLimit) {
       // stop requesting if we are close to the apps script time limit and display a warning to the user
       if (SCRIPT_RUNTIME_LIMIT > 0 && getScriptElapsedTime() > SCRIPT_RUNTIME_LIMIT * 1000) {
-        const allRequests = Object.keys(allUrlsMappedToIndex).join(', ');
-        let message = options.runtimeLimitAbortMessage || 'This request is taking too long, aborting.';
-        message = `${message} (Requests being sent: ${allRequests}).`;
-        throwUnexpectedError(new Error(message), 'api client');
+        abortForRuntimeLimit();
         return;
       }
     }
 
     let countOfFailedRequests = 0;
-
-    const urlsToFetch = Object.keys(allUrlsMappedToIndex).map((u) => (<URLFetchRequest>{
+    let retryAfterMs: number|null = null;
+    const failureReasons: string[] = [];
+
+    const pendingUrls = Object.keys(allUrlsMappedToIndex);
+
+    // when sending a bulk request, every pending request is packed into the urls parameter of a single
+    // API.getBulkRequest call, which only uses one unit of the urlfetch quota
+    const isBulkRequest = options.useBulkRequest && pendingUrls.length > 1;
+    const payloads = isBulkRequest
+      ? [[
+        `module=API&method=API.getBulkRequest&format=JSON&${env.API_REQUEST_SOURCE_IDENTIFIER}=1`,
+        ...pendingUrls.map((u, i) => `urls[${i}]=${encodeURIComponent(u)}`),
+      ].join('&')]
+      : pendingUrls;
+
+    const urlsToFetch = payloads.map((u) => (<URLFetchRequest>{
       url: baseUrl,
       headers: {
         'User-Agent': FETCH_USER_AGENT,
@@ -228,78 +311,152 @@ export function fetchAll(requests: MatomoRequestParams[], options: ApiFetchOptio
       if (!isUrlFetchErrorProbablyTemporary(errorMessage)) {
         throw e;
       }
+
+      countOfFailedRequests += pendingUrls.length;
+      failureReasons.push(`temporary urlfetch error "${errorMessage}"`);
+
+      // recorded in case the requests are not retried
+      pendingUrls.forEach((url) => {
+        responseContents[allUrlsMappedToIndex[url]] = {
+          result: 'error',
+          message: `Request to Matomo failed: ${errorMessage}`,
+        };
+        delete httpFailures[allUrlsMappedToIndex[url]];
+      });
     }
 
+    // returns false if the request should be retried
+    const handleResponseContent = (urlFetched: string, content: any) => {
+      const responseIndex = allUrlsMappedToIndex[urlFetched];
+
+      // save the response even if it's an error so we can get the server-side error message if needed
+      responseContents[responseIndex] = content;
+      delete httpFailures[responseIndex];
+
+      if (content?.result === 'error'
+        && !isApiErrorNonRandom(content.message)
+      ) {
+        logError(new Error(`Matomo returned an error for request ${urlFetched}: ${content.message}`), 'api client');
+        failureReasons.push('random Matomo error');
+        return false;
+      }
+
+      return true;
+    };
+
     responses.forEach((r, i) => {
       const urlFetched = (urlsToFetch[i] as any).wholeUrl;
-      const responseIndex = allUrlsMappedToIndex[urlFetched];
+      const urlsInRequest = isBulkRequest ? pendingUrls : [urlFetched];
 
       const code = r.getResponseCode();
 
       if (code < 200 || code >= 400) {
         log(`Matomo API request failed with code ${code}.`);
 
-        if (
-          (code >= 502 && code <= 504)
-          || code === 420
-        ) {
-          countOfFailedRequests += 1;
+        if (retryStrategy.retryableStatusCodes.includes(code)) {
+          const responseRetryAfterMs = parseRetryAfterHeader(getRetryAfterHeader(r));
+          if (responseRetryAfterMs !== null) {
+            retryAfterMs = Math.max(retryAfterMs || 0, responseRetryAfterMs);
+          }
+
+          countOfFailedRequests += urlsInRequest.length;
+          failureReasons.push(`HTTP ${code}${responseRetryAfterMs !== null ? ` with Retry-After ${responseRetryAfterMs / 1000}s` : ''}`);
+
+          // recorded in case the requests are not retried
+          urlsInRequest.forEach((url) => {
+            responseContents[allUrlsMappedToIndex[url]] = {
+              result: 'error',
+              message: `Matomo server failed with code ${code}. Truncated response: ${r.getContentText('UTF-8').substring(0, 100)}`,
+            };
+            httpFailures[allUrlsMappedToIndex[url]] = {
+              httpCode: code,
+              body: r.getContentText('UTF-8'),
+              retryAfterMs: responseRetryAfterMs,
+            };
+          });
           return; // retry
         }
 
-        responseContents[responseIndex] = {
-          result: 'error',
-          message: `Matomo server failed with code ${code}. Truncated response: ${r.getContentText('UTF-8').substring(0, 100)}`,
-        };
-      } else {
-        // save the response even if it's an error so we can get the server-side error message if needed
-        responseContents[responseIndex] = r.getContentText('UTF-8') || '{}';
-        responseContents[responseIndex] = JSON.parse(responseContents[responseIndex] as string);
+        urlsInRequest.forEach((url) => {
+          responseContents[allUrlsMappedToIndex[url]] = {
+            result: 'error',
+            message: `Matomo server failed with code ${code}. Truncated response: ${r.getContentText('UTF-8').substring(0, 100)}`,
+          };
+          httpFailures[allUrlsMappedToIndex[url]] = { httpCode: code, body: r.getContentText('UTF-8') };
+          delete allUrlsMappedToIndex[url];
+        });
+        return;
+      }
+
+      const content = JSON.parse(r.getContentText('UTF-8') || '{}');
 
-        if (responseContents[responseIndex].result === 'error'
-          && !isApiErrorNonRandom(responseContents[responseIndex].message)
-        ) {
-          logError(new Error(`Matomo returned an error for request ${urlFetched}: ${responseContents[responseIndex].message}`), 'api client');
+      // the bulk request itself can fail, eg, if the token is invalid, in which case every request failed
+      const contents = isBulkRequest && Array.isArray(content) ? content : urlsInRequest.map(() => content);
 
+      urlsInRequest.forEach((url, urlIndex) => {
+        if (!handleResponseContent(url, contents[urlIndex])) {
           countOfFailedRequests += 1;
           return; // retry
         }
-      }
 
-      // this request succeeded or failed for a non-random reason, so don't make it again
-      delete allUrlsMappedToIndex[urlFetched];
+        // this request succeeded or failed for a non-random reason, so don't make it again
+        delete allUrlsMappedToIndex[url];
+      });
     });
 
     // if there are still requests to try (because they failed), wait before trying again
     const remainingRequestCount = Object.keys(allUrlsMappedToIndex).length;
     const haveRequestsFailed = remainingRequestCount > 0;
     if (haveRequestsFailed) {
-      log(`${countOfFailedRequests} request(s) failed, retrying after ${currentWaitBeforeRetryTime / 1000} seconds.`);
+      const decision = getRetryDecision(retryStrategy, {
+        attempt,
+        startTime,
+        scriptElapsedTimeMs: getScriptElapsedTime(),
+        retryAfterMs,
+      });
+
+      const reasons = failureReasons.filter((r, i, all) => all.indexOf(r) === i).join(', ');
+      if (!decision.shouldRetry) {
+        log(`${countOfFailedRequests} request(s) failed (${reasons}), not retrying: ${decision.reason}.`);
+
+        if (decision.isRuntimeLimitReached && options.checkRuntimeLimit) {
+          abortForRuntimeLimit();
+          return;
+        }
+
+        break;
+      }
+
+      log(`${countOfFailedRequests} request(s) failed (${reasons}), retrying after ${decision.delayMs / 1000} seconds: ${decision.reason}.`);
 
-      Utilities.sleep(currentWaitBeforeRetryTime);
-      currentWaitBeforeRetryTime = Math.min(currentWaitBeforeRetryTime * 2, MAX_WAIT_BEFORE_RETRY * 1000);
+      Utilities.sleep(decision.delayMs);
+      attempt += 1;
     }
   }
 
   if (options.throwOnFailedRequest) {
-    const errorResponses = responseContents
+    const errors = responseContents
       .map((r, i) => ({ ...r, index: i }))
-      .filter((r) => r.result === 'error');
-
-    if (errorResponses.length === 1) {
-      const { method, params } = requests[errorResponses[0].index];
-      throwUnexpectedError(new Error(`API method ${method} failed (params = ${JSON.stringify(params)}): "${errorResponses[0].message}".`), 'api client');
-    } else if (errorResponses.length > 1) {
-      throwUnexpectedError(new Error(`${errorResponses.length} API methods failed.`), 'api client');
+      .filter((r) => r.result === 'error')
+      .map((r) => new MatomoApiError({
+        method: requests[r.index].method,
+        params: requests[r.index].params,
+        apiMessage: r.message,
+        httpCode: httpFailures[r.index]?.httpCode,
+        body: httpFailures[r.index]?.body,
+        retryAfterMs: httpFailures[r.index]?.retryAfterMs,
+        classification: classifyApiError(r.message, httpFailures[r.index]?.httpCode),
+      }));
+
+    if (errors.length === 1) {
+      throw errors[0];
+    } else if (errors.length > 1) {
+      throw new MatomoApiAggregateError(errors);
     }
   }
 
   if (options.cacheKey && options.cacheTtl > 0) {
-    try {
-      cache.put(options.cacheKey, JSON.stringify(responseContents), options.cacheTtl);
-    } catch (e) {
-      logError(new Error(`failed to save cache data for ${options.cacheKey}`), 'api client');
-    }
+    putCachedValue(options.cacheKey, responseContents, options.cacheTtl);
   }
 
   return responseContents;
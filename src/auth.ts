@@ -6,6 +6,7 @@
  */
 
 import * as Api from './api';
+import { purgeCache } from './cache';
 import cc from './connector';
 import { debugLog } from './log';
 
@@ -56,6 +57,9 @@ export function isAuthValid() {
 }
 
 export function resetAuth() {
+  // cached values are namespaced by the current credentials, so they must be removed before the credentials are deleted
+  purgeCache();
+
   const userTokenProperties = PropertiesService.getUserProperties();
   userTokenProperties.deleteProperty('dscc.username');
   userTokenProperties.deleteProperty('dscc.token');
@@ -0,0 +1,209 @@
+/**
+ * Matomo - free/libre analytics platform
+ *
+ * @link https://matomo.org
+ * @license http://www.gnu.org/licenses/gpl-3.0.html GPL v3 or later
+ */
+
+import { log } from './log';
+
+// CacheService values can be at most 100KB, some space is left for multibyte characters in uncompressed values
+const MAX_CHUNK_SIZE = 90 * 1024;
+const MAX_UNCOMPRESSED_CHUNK_LENGTH = Math.floor(MAX_CHUNK_SIZE / 4);
+
+// the most keys tracked per namespace, older keys are not purged but still expire with their TTL
+const MAX_NAMESPACE_INDEX_SIZE = 500;
+
+interface CacheManifest {
+  chunks: number;
+  compressed: boolean;
+  checksum: string;
+}
+
+interface CachePutOptions {
+  compress?: boolean;
+}
+
+function getChecksum(data: string) {
+  return Utilities.base64Encode(Utilities.computeDigest(Utilities.DigestAlgorithm.MD5, data, Utilities.Charset.UTF_8));
+}
+
+function getShortHash(data: string) {
+  const digest = Utilities.computeDigest(Utilities.DigestAlgorithm.MD5, data, Utilities.Charset.UTF_8);
+  return Utilities.base64EncodeWebSafe(digest).replace(/=+$/, '');
+}
+
+/**
+ * Returns the prefix of the cache keys for the Matomo instance and token the user is currently using, so
+ * cached values from one instance or user are never used for another.
+ */
+function getCacheNamespace() {
+  const userProperties = PropertiesService.getUserProperties();
+  const instanceUrl = userProperties.getProperty('dscc.username') || '';
+  const token = userProperties.getProperty('dscc.token') || '';
+  return `ns.${getShortHash(`${instanceUrl}|${token}`)}`;
+}
+
+function getNamespaceIndexKey(namespace: string) {
+  return `${namespace}.keys`;
+}
+
+/**
+ * Builds a cache key for a value that depends on the current Matomo instance and credentials, as well as on
+ * any other parameters that affect the value (like the site or the language).
+ *
+ * exported for tests
+ *
+ * @param name the name of the cached value, eg, 'getConfig.API.getReportMetadata'
+ * @param params the parameters that affect the cached value
+ */
+export function getCacheKey(name: string, params: Record<string, string|number|undefined> = {}) {
+  const sortedParams = Object.keys(params)
+    .sort()
+    .filter((paramName) => typeof params[paramName] !== 'undefined')
+    .map((paramName) => `${paramName}=${params[paramName]}`)
+    .join('&');
+
+  return `${getCacheNamespace()}.${name}${sortedParams ? `.${getShortHash(sortedParams)}` : ''}`;
+}
+
+// keeps track of the keys in the current namespace so they can be removed when purging the cache
+function addKeysToNamespaceIndex(cache: GoogleAppsScript.Cache.Cache, keys: string[]) {
+  const namespace = getCacheNamespace();
+  const keysInNamespace = keys.filter((k) => k.startsWith(`${namespace}.`));
+  if (!keysInNamespace.length) {
+    return;
+  }
+
+  const indexKey = getNamespaceIndexKey(namespace);
+
+  let index: string[] = [];
+  try {
+    index = JSON.parse(cache.get(indexKey) || '[]');
+  } catch (e) {
+    // ignore corrupted indexes
+  }
+
+  const newKeys = keysInNamespace.filter((k) => !index.includes(k));
+  if (!newKeys.length) {
+    return;
+  }
+
+  index = [...index, ...newKeys].slice(-MAX_NAMESPACE_INDEX_SIZE);
+
+  // the index must outlive the values it references, so it is kept for the maximum time possible
+  cache.put(indexKey, JSON.stringify(index), 21600);
+}
+
+/**
+ * Removes every cached value for the Matomo instance and credentials the user is currently using. Must be
+ * called before the credentials are changed.
+ */
+export function purgeCache() {
+  const cache = CacheService.getUserCache();
+  const indexKey = getNamespaceIndexKey(getCacheNamespace());
+
+  try {
+    const index: string[] = JSON.parse(cache.get(indexKey) || '[]');
+    cache.removeAll([...index, indexKey]);
+  } catch (e) {
+    log(`unable to purge the cache: ${e.message || e}`);
+  }
+}
+
+function getChunkKey(key: string, index: number) {
+  return `${key}.chunk${index}`;
+}
+
+/**
+ * Stores a value of any size in the user cache. The value is stored as JSON, optionally gzipped, split into
+ * as many cache entries as needed, along with a manifest entry under `key` that describes how to reassemble it.
+ *
+ * exported for tests
+ *
+ * @param key the cache key
+ * @param value the value to cache, must be serializable as JSON
+ * @param ttl the time to keep the value in the cache in seconds, uses the CacheService default if not set
+ * @param options
+ * @return true if the value was saved, false if not
+ */
+export function putCachedValue(key: string, value: unknown, ttl?: number, { compress = true }: CachePutOptions = {}) {
+  try {
+    let data = JSON.stringify(value);
+    if (compress) {
+      data = Utilities.base64Encode(Utilities.gzip(Utilities.newBlob(data, 'application/json')).getBytes());
+    }
+
+    const chunkLength = compress ? MAX_CHUNK_SIZE : MAX_UNCOMPRESSED_CHUNK_LENGTH;
+
+    const entries: Record<string, string> = {};
+
+    let chunks = 0;
+    for (let offset = 0; offset < data.length || chunks === 0; offset += chunkLength) {
+      entries[getChunkKey(key, chunks)] = data.substring(offset, offset + chunkLength);
+      chunks += 1;
+    }
+
+    const manifest: CacheManifest = { chunks, compressed: compress, checksum: getChecksum(data) };
+    entries[key] = JSON.stringify(manifest);
+
+    const cache = CacheService.getUserCache();
+    if (typeof ttl === 'undefined') {
+      cache.putAll(entries);
+    } else {
+      cache.putAll(entries, ttl);
+    }
+
+    addKeysToNamespaceIndex(cache, Object.keys(entries));
+
+    return true;
+  } catch (e) {
+    log(`unable to save cache value for ${key}: ${e.message || e}`);
+    return false;
+  }
+}
+
+/**
+ * Returns a value stored with `putCachedValue()`, or null if it is not in the cache or some of its
+ * chunks are missing or corrupted.
+ *
+ * exported for tests
+ */
+export function getCachedValue<T = any>(key: string): T|null {
+  const cache = CacheService.getUserCache();
+
+  try {
+    const manifestValue = cache.get(key);
+    if (typeof manifestValue === 'undefined' || manifestValue === null) {
+      return null;
+    }
+
+    const manifest = JSON.parse(manifestValue) as CacheManifest;
+
+    const chunkKeys = [];
+    for (let i = 0; i < manifest.chunks; i += 1) {
+      chunkKeys.push(getChunkKey(key, i));
+    }
+
+    const chunks = cache.getAll(chunkKeys);
+    if (chunkKeys.some((chunkKey) => typeof chunks[chunkKey] !== 'string')) {
+      log(`cache value for ${key} is missing chunks, ignoring it`);
+      return null;
+    }
+
+    let data = chunkKeys.map((chunkKey) => chunks[chunkKey]).join('');
+    if (getChecksum(data) !== manifest.checksum) {
+      log(`cache value for ${key} is corrupted, ignoring it`);
+      return null;
+    }
+
+    if (manifest.compressed) {
+      data = Utilities.ungzip(Utilities.newBlob(Utilities.base64Decode(data), 'application/x-gzip')).getDataAsString();
+    }
+
+    return JSON.parse(data) as T;
+  } catch (e) {
+    log(`unable to read cache value for ${key}: ${e.message || e}`);
+    return null;
+  }
+}
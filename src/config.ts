@@ -7,13 +7,16 @@
 
 import { ConnectorParams } from './connector';
 import * as Api from './api';
-import cc from './connector';
+import cc, { DEFAULT_HIERARCHY_MAX_DEPTH, ECOMMERCE_GOALS, REPORT_PARAMETERS, getSelectedSites } from './connector';
 import env from './env';
 import {
   throwUserError,
   callWithUserFriendlyErrorHandling
 } from './error';
 import { debugLog, log } from './log';
+import { getCacheKey, getCachedValue, putCachedValue } from './cache';
+import { getVisitsLogReportParam } from './live';
+import { getAnnotationsReportParam } from './annotations';
 
 interface ConfigStep {
   isFilledOut(params?: ConnectorParams): boolean;
@@ -27,7 +30,7 @@ function getSitesWithAtLeastViewAccess() {
   return Api.fetch<Api.Site[]>('SitesManager.getSitesWithAtLeastViewAccess', {
     filter_limit: '-1',
   }, {
-    cacheKey: 'getConfig.SitesManager.getSitesWithAtLeastViewAccess',
+    cacheKey: getCacheKey('getConfig.SitesManager.getSitesWithAtLeastViewAccess'),
     cacheTtl: CONFIG_REQUEST_CACHE_TTL_SECS,
   });
 }
@@ -39,16 +42,12 @@ function getMatomoVersion() {
 }
 
 function getReportMetadata(idSite: string) {
-  const cache = CacheService.getUserCache();
-  const cacheKey = `getConfig.API.getReportMetadata.${idSite}`;
-
-  const cachedValue = cache.get(cacheKey);
-  if (typeof cachedValue !== 'undefined' && cachedValue !== null) {
-    try {
-      return JSON.parse(cachedValue);
-    } catch (e) {
-      log(`unable to parse cache value for ${cacheKey}, making actual request`);
-    }
+  const language = Session.getActiveUserLocale();
+  const cacheKey = getCacheKey('getConfig.API.getReportMetadata', { idSite, language });
+
+  const cachedValue = getCachedValue<{ reportMetadata: Api.ReportMetadata[], hasMetricTypes: boolean }>(cacheKey);
+  if (cachedValue !== null) {
+    return cachedValue;
   }
 
   let response = Api.fetch<Api.ReportMetadata[]>(
@@ -58,7 +57,7 @@ function getReportMetadata(idSite: string) {
       period: 'day',
       date: 'yesterday',
       filter_limit: '-1',
-      language: Session.getActiveUserLocale(),
+      language,
     },
   );
 
@@ -75,23 +74,52 @@ function getReportMetadata(idSite: string) {
     // don't show MultiSites.getOne since it has no usable label
     .filter((r) => !(r.module === 'MultiSites' && r.action === 'getOne'));
 
-  // remove unused properties from response so the result can fit in the cache
-  response = response.map((r) => ({
-    module: r.module,
-    action: r.action,
-    category: r.category,
-    name: r.name,
-    parameters: r.parameters,
-  } as unknown as Api.ReportMetadata));
-
   const result = { reportMetadata: response, hasMetricTypes };
 
+  putCachedValue(cacheKey, result);
+
+  return result;
+}
+
+/**
+ * Returns the possible values of each of the REPORT_PARAMETERS for a site. Parameters whose list cannot be
+ * fetched (for example, because the plugin is not activated) or that have no values are left out.
+ *
+ * The lists are optional and fetched on every config render, so failed requests are not retried.
+ */
+function getReportParameterValues(idSite: string) {
+  const parameterNames = Object.keys(REPORT_PARAMETERS);
+
+  let responses: any[] = [];
   try {
-    cache.put(cacheKey, JSON.stringify(result));
+    responses = Api.fetchAll(
+      parameterNames.map((name) => ({
+        method: REPORT_PARAMETERS[name].listMethod,
+        params: { idSite, filter_limit: '-1' },
+      })),
+      {
+        cacheKey: getCacheKey('getConfig.reportParameterValues', { idSite }),
+        cacheTtl: CONFIG_REQUEST_CACHE_TTL_SECS,
+        useBulkRequest: true,
+        retryStrategy: { retryLimitMs: 0 },
+      },
+    );
   } catch (e) {
-    log(`unable to save cache value for ${cacheKey}`);
+    log(`Failed to get report parameter values: ${e.stack || e.message || e}`);
   }
 
+  const result: Record<string, { label: string, value: string }[]> = {};
+  parameterNames.forEach((name, index) => {
+    if (!Array.isArray(responses[index]) || !responses[index].length) {
+      return;
+    }
+
+    const { valueProperty, labelProperty } = REPORT_PARAMETERS[name];
+    result[name] = responses[index].map((entry) => ({
+      label: `${entry[labelProperty]}`,
+      value: `${entry[valueProperty]}`,
+    }));
+  });
   return result;
 }
 
@@ -149,6 +177,20 @@ const CONFIG_STEPS = <ConfigStep[]>[
       sitesWithViewAccess.forEach((site) => {
         idSiteSelect = idSiteSelect.addOption(config.newOptionBuilder().setLabel(site.name).setValue(`${site.idsite}`));
       });
+
+      // multiple idsite select
+      let idSitesSelect = config
+        .newSelectMultiple()
+        .setId('idsites')
+        .setName('Combine data from multiple Websites/Measurables (optional)')
+        .setHelpText('Select websites here to fetch data for all of them in a single data source. Website ID, name and URL '
+          + 'dimensions will be added to the data source. The report list, segments and goals will be taken from the '
+          + 'website selected above.')
+        .addOption(config.newOptionBuilder().setLabel('All websites').setValue('all'));
+
+      sitesWithViewAccess.forEach((site) => {
+        idSitesSelect = idSitesSelect.addOption(config.newOptionBuilder().setLabel(site.name).setValue(`${site.idsite}`));
+      });
     },
   },
 
@@ -175,6 +217,16 @@ const CONFIG_STEPS = <ConfigStep[]>[
           + 'in Looker Studio. Revenue metrics will still be imported, but they will be displayed as a number without a currency symbol.');
       }
 
+      // check if the websites being combined use different currencies
+      const selectedSites = getSelectedSites(params, sites) || [];
+      const selectedCurrencies = selectedSites
+        .map((s) => s.currency)
+        .filter((currency, index, all) => currency && all.indexOf(currency) === index);
+      if (selectedCurrencies.length > 1) {
+        config.newInfo().setId('mixed-matomo-currencies').setText(`Warning: The websites you selected use different currencies (${selectedCurrencies.join(', ')}). `
+          + 'Revenue metrics will still be imported, but they will be displayed as a number without a currency symbol.');
+      }
+
       const { reportMetadata, hasMetricTypes } = getReportMetadata(params.idsite!);
 
       // check if Matomo is old and does not have <metricTypes>
@@ -201,12 +253,58 @@ const CONFIG_STEPS = <ConfigStep[]>[
         );
       });
 
+      // raw visit data and annotations are not available as processed reports, so they are added separately
+      reportSelect = reportSelect.addOption(
+        config.newOptionBuilder().setLabel('Visitors > Visits Log (raw)').setValue(getVisitsLogReportParam()),
+      );
+      reportSelect = reportSelect.addOption(
+        config.newOptionBuilder().setLabel('Annotations > Annotations').setValue(getAnnotationsReportParam()),
+      );
+
+      // report parameter selects, for reports that require a parameter that is not part of their metadata
+      const reportParameterValues = getReportParameterValues(params.idsite!);
+      Object.entries(reportParameterValues).forEach(([name, values]) => {
+        const { name: displayName, apiMethod } = REPORT_PARAMETERS[name];
+        const [apiModule, apiAction] = apiMethod.split('.');
+
+        reportSelect = reportSelect.addOption(
+          config.newOptionBuilder()
+            .setLabel(`${displayName} (selected below)`)
+            .setValue(JSON.stringify({ apiModule, apiAction })),
+        );
+
+        let parameterSelect = config
+          .newSelectSingle()
+          .setId(name)
+          .setName(displayName)
+          .setHelpText(`The ${displayName.toLowerCase()} to use when the report selected above is "${displayName} (selected below)". `
+            + 'Ignored for other reports.');
+
+        values.forEach(({ label, value }) => {
+          parameterSelect = parameterSelect.addOption(config.newOptionBuilder().setLabel(label).setValue(value));
+        });
+      });
+
+      // hierarchical (subtable) options
+      config
+        .newCheckbox()
+        .setId('hierarchical')
+        .setName('Fetch Report Hierarchically')
+        .setHelpText('For reports with subtables (like Page URLs or Websites), fetch every level of the report and add a '
+          + 'dimension for each level along with a full path dimension. Ignored for reports without subtables.');
+
+      config
+        .newTextInput()
+        .setId('hierarchy_max_depth')
+        .setName('Maximum Hierarchy Depth')
+        .setHelpText(`The number of report levels to fetch when fetching the report hierarchically. Defaults to ${DEFAULT_HIERARCHY_MAX_DEPTH}.`);
+
       // segment select
       const segments = Api.fetch<Api.StoredSegment[]>('SegmentEditor.getAll', {
         idSite: params.idsite!,
         filter_limit: '-1',
       }, {
-        cacheKey: `getConfig.SegmentEditor.getAll.${params.idsite!}`,
+        cacheKey: getCacheKey('getConfig.SegmentEditor.getAll', { idSite: params.idsite! }),
         cacheTtl: CONFIG_REQUEST_CACHE_TTL_SECS,
       });
 
@@ -223,6 +321,76 @@ const CONFIG_STEPS = <ConfigStep[]>[
         );
       });
 
+      // segments to compare select (segment IDs are used as values, since definitions can contain commas)
+      let segmentsSelect = config
+        .newSelectMultiple()
+        .setId('segments')
+        .setName('Compare Segments (optional)')
+        .setHelpText('Select multiple segments to fetch data for each of them in a single data source. A Segment dimension '
+          + 'will be added to the data source. When set, the segment selected above is ignored.')
+        .addOption(config.newOptionBuilder().setLabel('All Visits').setValue('all_visits'));
+
+      segments.forEach((segment) => {
+        if (typeof segment.idsegment === 'undefined') {
+          return;
+        }
+
+        segmentsSelect = segmentsSelect.addOption(
+          config.newOptionBuilder().setLabel(segment.name).setValue(`${segment.idsegment}`),
+        );
+      });
+
+      // comparison select
+      config
+        .newSelectSingle()
+        .setId('comparison')
+        .setName('Comparison Metrics')
+        .setHelpText('Adds a version of every metric for the selected comparison period, along with the change from it. '
+          + 'Comparison metrics are not available when a time dimension is used or multiple websites are selected.')
+        .addOption(config.newOptionBuilder().setLabel('None').setValue(''))
+        .addOption(config.newOptionBuilder().setLabel('Previous period').setValue('previous_period'))
+        .addOption(config.newOptionBuilder().setLabel('Same period last year').setValue('previous_year'));
+
+      // goals select
+      const goals = Api.fetch<Record<string, Api.Goal>>('Goals.getGoals', {
+        idSite: params.idsite!,
+      }, {
+        cacheKey: getCacheKey('getConfig.Goals.getGoals', { idSite: params.idsite! }),
+        cacheTtl: CONFIG_REQUEST_CACHE_TTL_SECS,
+      });
+
+      let goalsSelect = config
+        .newSelectMultiple()
+        .setId('goals')
+        .setName('Goals (optional)')
+        .setHelpText('Select the goals to add per-goal metrics for. If none are selected, per-goal metrics are added for '
+          + 'every goal, which can make the data source slow for websites with many goals. Matomo can only limit the goals '
+          + 'it calculates to a single goal, so selecting one goal is faster, while selecting several only limits the '
+          + 'metrics shown.');
+
+      Object.values(ECOMMERCE_GOALS).forEach((goal) => {
+        goalsSelect = goalsSelect.addOption(config.newOptionBuilder().setLabel(goal.name).setValue(`${goal.idgoal}`));
+      });
+
+      Object.values(goals || {}).forEach((goal) => {
+        goalsSelect = goalsSelect.addOption(config.newOptionBuilder().setLabel(goal.name).setValue(`${goal.idgoal}`));
+      });
+
+      config
+        .newCheckbox()
+        .setId('goal_pivot')
+        .setName('Show Goals as Rows')
+        .setHelpText('For reports with goal metrics, add a Goal dimension with one row for each goal, along with goal '
+          + 'conversions, revenue and conversion rate metrics, instead of adding metrics for each goal.');
+
+      config
+        .newCheckbox()
+        .setId('combine_periods')
+        .setName('Combine Archived Periods for Date Ranges')
+        .setHelpText('Fetch date ranges as the whole months, weeks and days within them and add them up, instead of '
+          + 'having Matomo process the range, which can be slow. Only used if every requested metric can be added up '
+          + 'and no comparison or row limit is set.');
+
       // report language select
       const languages = Api.fetch<Api.Language[]>('LanguagesManager.getAvailableLanguageNames');
 
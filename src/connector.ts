@@ -5,18 +5,145 @@
  * @license http://www.gnu.org/licenses/gpl-3.0.html GPL v3 or later
  */
 
+import * as Api from './api';
+
 export interface ConnectorParams {
   idsite?: string;
+  idsites?: string; // comma separated list of site IDs (or 'all'), if set data is fetched for every site in the list
   reportCategory?: string;
   report?: string;
   segment?: string;
+  segments?: string; // comma separated list of stored segment IDs to compare, 'all_visits' is used for no segment
   filter_limit?: string;
   hierarchical?: boolean; // if false, flat=1, otherwise flat=0 (done this way so we default to flat)
+  hierarchy_max_depth?: string;
+  comparison?: string; // 'previous_period' or 'previous_year'
+  goals?: string; // comma separated list of goal IDs to add per-goal metrics for, if unset every goal is used
+  goal_pivot?: boolean; // if true, goals are shown as rows with generic goal metrics instead of per-goal metrics
+  combine_periods?: boolean; // if true, date ranges are fetched as the archived periods within them when possible
   language?: string;
+  idCustomReport?: string; // used for reports that require the parameter, if it isn't in the report's metadata
+  idDimension?: string; // used for reports that require the parameter, if it isn't in the report's metadata
+}
+
+interface ReportParameter {
+  name: string;
+  apiMethod: string; // the report API method that requires the parameter
+  listMethod: string; // the API method that lists the possible values of the parameter
+  valueProperty: string;
+  labelProperty: string;
 }
 
+// parameters that some reports require, but that may not be included in the report's metadata
+export const REPORT_PARAMETERS: Record<string, ReportParameter> = {
+  idCustomReport: {
+    name: 'Custom Report',
+    apiMethod: 'CustomReports.getCustomReport',
+    listMethod: 'CustomReports.getConfiguredReports',
+    valueProperty: 'idcustomreport',
+    labelProperty: 'name',
+  },
+  idDimension: {
+    name: 'Custom Dimension',
+    apiMethod: 'CustomDimensions.getCustomDimension',
+    listMethod: 'CustomDimensions.getConfiguredCustomDimensions',
+    valueProperty: 'idcustomdimension',
+    labelProperty: 'name',
+  },
+};
+
 export default DataStudioApp.createCommunityConnector();
 
+// the goals every ecommerce site has, the idsite is added when they are used
+export const ECOMMERCE_GOALS: Record<string, Omit<Api.Goal, 'idsite'>> = {
+  ecommerceOrder: { idgoal: 'ecommerceOrder', name: 'Ecommerce order' },
+  ecommerceAbandonedCart: { idgoal: 'ecommerceAbandonedCart', name: 'Abandoned cart' },
+};
+
+export const DEFAULT_HIERARCHY_MAX_DEPTH = 3;
+export const MAX_HIERARCHY_MAX_DEPTH = 10;
+
+/**
+ * Returns the subset of `sites` selected in the multiple websites config control, or null if the
+ * data source only uses a single website.
+ */
+export function getSelectedSites<T extends { idsite: string|number }>(params: ConnectorParams|undefined, sites: T[]): T[]|null {
+  const idSites = (params?.idsites || '').trim();
+  if (!idSites) {
+    return null;
+  }
+
+  const selectedIds = idSites.split(',').map((id) => id.trim());
+  if (selectedIds.includes('all')) {
+    return sites;
+  }
+
+  return sites.filter((site) => selectedIds.includes(`${site.idsite}`));
+}
+
+/**
+ * Returns the goals selected in the goals config control (including ecommerce goals), indexed by goal ID.
+ * If no goals were selected, every goal in `goals` is returned.
+ */
+export function getSelectedGoals(
+  params: ConnectorParams|undefined,
+  goals: Record<string, Api.Goal>,
+): Record<string, Api.Goal> {
+  const idGoals = (params?.goals || '').trim();
+  if (!idGoals) {
+    return goals;
+  }
+
+  const selectedGoals: Record<string, Api.Goal> = {};
+  idGoals.split(',').map((id) => id.trim()).forEach((id) => {
+    if (ECOMMERCE_GOALS[id]) {
+      selectedGoals[id] = { idsite: params.idsite, ...ECOMMERCE_GOALS[id] };
+      return;
+    }
+
+    const goal = Object.values(goals || {}).find((g) => `${g.idgoal}` === id);
+    if (goal) {
+      selectedGoals[id] = goal;
+    }
+  });
+  return selectedGoals;
+}
+
+/**
+ * Returns the API parameters of the selected report, adding the values selected for any REPORT_PARAMETERS
+ * the report requires that are not already part of the report's metadata.
+ */
+export function getReportParams(params: ConnectorParams): Record<string, string> {
+  const reportParams = JSON.parse(params.report) as Record<string, string>;
+  const apiMethod = `${reportParams.apiModule}.${reportParams.apiAction}`;
+
+  Object.entries(REPORT_PARAMETERS).forEach(([name, parameter]) => {
+    if (parameter.apiMethod === apiMethod
+      && typeof reportParams[name] === 'undefined'
+      && params[name]
+    ) {
+      reportParams[name] = params[name];
+    }
+  });
+
+  return reportParams;
+}
+
+/**
+ * Returns true if the `report` config param selects the same API method as `otherReport`, eg, the param
+ * of one of the connector's own reports that are not listed in API.getReportMetadata.
+ */
+export function isSameReport(report: string|undefined, otherReport: string) {
+  try {
+    const reportParams = JSON.parse(report || '{}');
+    const otherReportParams = JSON.parse(otherReport);
+    return reportParams.apiModule === otherReportParams.apiModule
+      && reportParams.apiAction === otherReportParams.apiAction;
+  } catch (e) {
+    return false;
+  }
+}
+
 // used to detect script elapsed time and whether it is close to the apps script time limit
 export const scriptStartTime = Date.now();
 
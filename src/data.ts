@@ -6,20 +6,44 @@
  */
 
 import dayjs from 'dayjs/esm';
-import weekOfYear from 'dayjs/esm/plugin/weekOfYear';
-import cc, { ConnectorParams } from './connector';
+import cc, {
+  ConnectorParams,
+  DEFAULT_HIERARCHY_MAX_DEPTH,
+  MAX_HIERARCHY_MAX_DEPTH,
+  REPORT_PARAMETERS,
+  getReportParams,
+  getSelectedGoals,
+  getSelectedSites,
+  isSameReport,
+} from './connector';
 import * as Api from './api';
 import env from './env';
 import {
   throwUserError,
   throwUnexpectedError,
   callWithUserFriendlyErrorHandling,
+  isMatomoApiError,
 } from './error';
 import { DataTableRow } from './api';
+import { getMatomoFilterParams } from './filters';
+import {
+  DATE_DIMENSIONS,
+  addDateDimensions,
+  formatDateDimensionValue,
+  detectMatomoPeriodFromRange,
+  decomposeDateRange,
+  formatTimestamp,
+  getMatomoPeriodForDateDimensions,
+  getPeriodEndDate,
+  getTodayInTimezone,
+  isDateDimensionSpanningPeriods,
+  splitDateRangeIntoChunks,
+} from './dates';
+import { fetchAllPages, getMaxConcurrentRequests } from './pagination';
+import { getVisitsLogData, getVisitsLogReportParam, getVisitsLogSchema } from './live';
+import { getAnnotationsData, getAnnotationsReportParam, getAnnotationsSchema } from './annotations';
 import { debugLog } from './log';
 
-dayjs.extend(weekOfYear);
-
 const pastScriptRuntimeLimitErrorMessage = 'It\'s taking too long to get the requested data. This may be a momentary issue with '
   + 'your Matomo, but if it continues to occur for this report, then you may be requesting too much data. In this '
   + 'case, limit the data you are requesting to see it in Looker Studio.';
@@ -45,26 +69,397 @@ const MATOMO_SEMANTIC_TYPE_TO_LOOKER_MAPPING = {
   'unspecified': cc.FieldType.TEXT,
 };
 
-const DATE_DIMENSIONS = {
-  date: {
-    name: 'Date',
-    type: cc.FieldType.YEAR_MONTH_DAY,
-    daysInPeriod: 1,
+// metrics that are sums of counts in Matomo, and so can be summed again by Looker Studio across rows
+// (for example, across days or pages). per-goal metrics are matched without their goal_<id>_ prefix.
+const ADDITIVE_METRICS = [
+  'nb_visits',
+  'nb_visits_new',
+  'nb_visits_returning',
+  'nb_visits_converted',
+  'nb_visits_with_crash',
+  'nb_actions',
+  'nb_actions_new',
+  'nb_actions_returning',
+  'nb_hits',
+  'nb_hits_following_search',
+  'nb_pageviews',
+  'pageviews',
+  'nb_downloads',
+  'nb_outlinks',
+  'nb_searches',
+  'nb_exits',
+  'entry_nb_visits',
+  'entry_nb_actions',
+  'entry_sum_visit_length',
+  'entry_bounce_count',
+  'exit_nb_visits',
+  'sum_visit_length',
+  'bounce_count',
+  'nb_conversions',
+  'nb_conversions_attrib',
+  'nb_conversions_entry',
+  'conversion',
+  'revenue',
+  'revenue_attrib',
+  'revenue_entry',
+  'revenue_subtotal',
+  'revenue_tax',
+  'revenue_shipping',
+  'revenue_discount',
+  'ecommerce_revenue',
+  'orders',
+  'items',
+  'quantity',
+  'nb_events',
+  'nb_events_with_value',
+  'sum_event_value',
+  'nb_impressions',
+  'nb_interactions',
+  'nb_clicks',
+  'nb_plays',
+  'nb_finishes',
+  'sum_total_time_watched',
+  'sum_total_audio_impressions',
+  'sum_total_audio_plays',
+  'sum_total_video_impressions',
+  'sum_total_video_plays',
+  'nb_form_views',
+  'nb_form_starts',
+  'nb_form_submissions',
+  'nb_form_conversions',
+  'nb_crash_occurrences',
+  'nb_new_crashes',
+  'nb_reappeared_crashes',
+  'nb_disappeared_crashes',
+  'nb_ignored_crashes',
+  'funnel_nb_conversions',
+  'funnel_sum_entries',
+  'funnel_sum_exits',
+  'step_nb_visits',
+  'step_nb_entries',
+  'step_nb_exits',
+  'step_nb_proceeded',
+  'step_nb_progressions',
+  'step_nb_skipped',
+  'nb_proceeded',
+];
+
+// metrics that are ratios, averages, extremes or unique counts cannot be summed across rows
+const NON_ADDITIVE_METRIC_PATTERNS = [
+  /uniq/,
+  /^nb_users/,
+  /distinct/,
+  /(^|_)(avg|max|min)_/,
+  /_rate(_|$)/,
+  /_per_/,
+  /_evolution$/,
+  /_percent(age)?$/,
+];
+
+// Matomo types of metrics that can be summed if their name looks like a count or a sum
+const ADDITIVE_MATOMO_TYPES = ['number', 'money', 'duration_s', 'duration_ms', 'byte'];
+
+// dimensions added to the data when the data source combines data from multiple websites
+const SITE_DIMENSIONS = {
+  idsite: {
+    name: 'Website ID',
+    type: cc.FieldType.TEXT,
+  },
+  site_name: {
+    name: 'Website Name',
+    type: cc.FieldType.TEXT,
+  },
+  site_main_url: {
+    name: 'Website URL',
+    type: cc.FieldType.URL,
+  },
+};
+
+// dimension added to the data when comparing multiple segments
+const SEGMENT_DIMENSIONS = {
+  compared_segment: {
+    name: 'Segment',
+    type: cc.FieldType.TEXT,
+  },
+};
+
+const ALL_VISITS_SEGMENT_ID = 'all_visits';
+
+// Matomo's code for an unknown country, region or continent
+const UNKNOWN_LOCATION_CODE = 'xx';
+
+function getKnownLocationCode(code?: string) {
+  return code && code !== UNKNOWN_LOCATION_CODE ? code.toUpperCase() : undefined;
+}
+
+const COUNTRY_CODE_DIMENSION = {
+  name: 'Country Code',
+  type: cc.FieldType.COUNTRY_CODE,
+  getValue: (row: DataTableRow) => getKnownLocationCode(row.country as string || row.code as string),
+};
+
+const REGION_CODE_DIMENSION = {
+  name: 'Region Code',
+  type: cc.FieldType.REGION,
+  // Looker Studio expects ISO 3166-2 region codes, which are prefixed with the country code
+  getValue: (row: DataTableRow) => {
+    const country = getKnownLocationCode(row.country as string);
+    const region = getKnownLocationCode(row.region as string);
+    return country && region ? `${country}-${region}` : undefined;
+  },
+};
+
+// geo dimensions that are added next to the translated label of location reports, using the row metadata
+// Matomo includes in each row
+const GEO_DIMENSIONS: Record<string, Record<string, {
+  name: string,
+  type: GoogleAppsScript.Data_Studio.FieldType,
+  getValue: (row: DataTableRow) => string|undefined,
+}>> = {
+  'UserCountry.getCountry': {
+    country_code: COUNTRY_CODE_DIMENSION,
+  },
+  'UserCountry.getRegion': {
+    country_code: COUNTRY_CODE_DIMENSION,
+    region_code: REGION_CODE_DIMENSION,
+  },
+  'UserCountry.getCity': {
+    country_code: COUNTRY_CODE_DIMENSION,
+    region_code: REGION_CODE_DIMENSION,
+    city_name: {
+      name: 'City Name',
+      type: cc.FieldType.CITY,
+      getValue: (row: DataTableRow) => row.city_name as string || undefined,
+    },
+    latitude_longitude: {
+      name: 'Latitude, Longitude',
+      type: cc.FieldType.LATITUDE_LONGITUDE,
+      getValue: (row: DataTableRow) => (
+        typeof row.lat !== 'undefined' && typeof row.long !== 'undefined' ? `${row.lat},${row.long}` : undefined
+      ),
+    },
+  },
+};
+
+function getGeoDimensions(reportMetadata: Api.ReportMetadata) {
+  return GEO_DIMENSIONS[`${reportMetadata.module}.${reportMetadata.action}`] || {};
+}
+
+// row metadata Matomo includes in the rows of some reports, named after the report's dimension
+const ROW_METADATA_DIMENSIONS = {
+  row_url: {
+    metadataKey: 'url',
+    nameSuffix: 'URL',
+    type: cc.FieldType.URL,
+  },
+  row_logo: {
+    metadataKey: 'logo',
+    nameSuffix: 'Logo',
+    type: cc.FieldType.IMAGE,
+  },
+  row_segment: {
+    metadataKey: 'segment',
+    nameSuffix: 'Segment Definition',
+    type: cc.FieldType.TEXT,
+  },
+  row_code: {
+    metadataKey: 'code',
+    nameSuffix: 'Code',
+    type: cc.FieldType.TEXT,
+  },
+};
+
+// the row metadata known to be included in the rows of each report
+const ROW_METADATA_BY_REPORT: Record<string, string[]> = {
+  'Actions.getPageUrls': ['url', 'segment'],
+  'Actions.getEntryPageUrls': ['url', 'segment'],
+  'Actions.getExitPageUrls': ['url', 'segment'],
+  'Actions.getDownloads': ['url', 'segment'],
+  'Actions.getOutlinks': ['url', 'segment'],
+  'Actions.getPageTitles': ['segment'],
+  'Actions.getEntryPageTitles': ['segment'],
+  'Actions.getExitPageTitles': ['segment'],
+  'DevicePlugins.getPlugin': ['logo', 'segment'],
+  'DevicesDetection.getType': ['logo', 'segment'],
+  'DevicesDetection.getBrand': ['logo', 'segment'],
+  'DevicesDetection.getModel': ['segment'],
+  'DevicesDetection.getOsFamilies': ['logo', 'segment'],
+  'DevicesDetection.getOsVersions': ['logo', 'segment'],
+  'DevicesDetection.getBrowsers': ['logo', 'segment'],
+  'DevicesDetection.getBrowserVersions': ['logo', 'segment'],
+  'DevicesDetection.getBrowserEngines': ['segment'],
+  'Referrers.getReferrerType': ['logo', 'segment'],
+  'Referrers.getSearchEngines': ['url', 'logo', 'segment'],
+  'Referrers.getSocials': ['url', 'logo', 'segment'],
+  'Referrers.getWebsites': ['url', 'logo', 'segment'],
+  'Resolution.getConfiguration': ['segment'],
+  'Resolution.getResolution': ['segment'],
+  'UserCountry.getCity': ['logo', 'segment'],
+  'UserCountry.getContinent': ['code', 'segment'],
+  'UserCountry.getCountry': ['code', 'logo', 'segment'],
+  'UserCountry.getRegion': ['logo', 'segment'],
+  'UserLanguage.getLanguage': ['segment'],
+  'UserLanguage.getLanguageCode': ['segment'],
+};
+
+function getRowMetadataDimensions(reportMetadata: Api.ReportMetadata) {
+  const dimensions: Record<string, { name: string, type: GoogleAppsScript.Data_Studio.FieldType }> = {};
+
+  // in reports with multiple dimensions, row metadata cannot be attributed to a single dimension
+  if (!reportMetadata.dimension || reportMetadata.dimensions) {
+    return dimensions;
+  }
+
+  const metadataKeys = ROW_METADATA_BY_REPORT[`${reportMetadata.module}.${reportMetadata.action}`] || [];
+
+  Object.entries(ROW_METADATA_DIMENSIONS).forEach(([id, { metadataKey, nameSuffix, type }]) => {
+    if (metadataKeys.includes(metadataKey)) {
+      dimensions[id] = { name: `${reportMetadata.dimension} ${nameSuffix}`, type };
+    }
+  });
+  return dimensions;
+}
+
+// exported for tests
+export function getRowMetadataValues(row: DataTableRow, instanceUrl: string) {
+  const values: Record<string, string|undefined> = {};
+  Object.entries(ROW_METADATA_DIMENSIONS).forEach(([id, { metadataKey }]) => {
+    const value = row[metadataKey];
+    values[id] = typeof value === 'undefined' || value === false || value === '' ? undefined : `${value}`;
+  });
+
+  // logos are relative to the Matomo instance
+  if (values.row_logo && !/^https?:\/\//.test(values.row_logo)) {
+    values.row_logo = `${instanceUrl}/${values.row_logo.replace(/^\/+/, '')}`;
+  }
+
+  return values;
+}
+
+// dimensions describing how up to date the data in a row is
+const FRESHNESS_DIMENSIONS = {
+  is_partial_period: {
+    name: 'Is Partial Period',
+    type: cc.FieldType.BOOLEAN,
+  },
+  last_archived_at: {
+    name: 'Last Archived At',
+    type: cc.FieldType.YEAR_MONTH_DAY_SECOND,
+  },
+};
+
+/**
+ * Returns whether a period has not ended yet, ie, whether its data is still incomplete.
+ *
+ * exported for tests
+ *
+ * @param period the Matomo period, eg, 'week'
+ * @param date the date of the period as found in Matomo's output, eg, '2023-02-13,2023-02-19'
+ * @param today the current date in the site's timezone, in YYYY-MM-DD format
+ */
+export function isPartialPeriod(period: string, date: string, today: string) {
+  return getPeriodEndDate(period, date) >= today;
+}
+
+/**
+ * Merges rows that have the same dimension values. Additive metrics are summed, other metrics cannot be
+ * computed from the merged rows and are left empty.
+ *
+ * exported for tests
+ *
+ * @param rows the formatted values of each row
+ * @param columns for each column, 'dimension', 'sum' or 'none' for metrics that cannot be reaggregated
+ */
+export function reaggregateRows(rows: string[][], columns: ('dimension'|'sum'|'none')[]) {
+  const rowsByDimensionValues: Record<string, string[]> = {};
+  rows.forEach((values) => {
+    const key = JSON.stringify(values.filter((_, index) => columns[index] === 'dimension'));
+
+    const existing = rowsByDimensionValues[key];
+    if (!existing) {
+      rowsByDimensionValues[key] = [...values];
+      return;
+    }
+
+    columns.forEach((column, index) => {
+      if (column === 'sum') {
+        existing[index] = `${(parseFloat(existing[index]) || 0) + (parseFloat(values[index]) || 0)}`;
+      } else if (column === 'none') {
+        existing[index] = '';
+      }
+    });
+  });
+
+  return Object.values(rowsByDimensionValues);
+}
+
+const COMPARISONS = {
+  previous_period: {
+    name: 'Previous Period',
+  },
+  previous_year: {
+    name: 'Same Period Last Year',
+  },
+};
+
+// groups metrics are placed in within Looker Studio's field list, based on where they come from
+const METRIC_GROUPS = {
+  core: 'Core Metrics',
+  processed: 'Processed Metrics',
+  goal: 'Goal Metrics',
+};
+
+// dimension and metrics used instead of per-goal metrics when goals are shown as rows
+const GOAL_PIVOT_DIMENSIONS = {
+  pivot_goal: {
+    name: 'Goal',
+    type: cc.FieldType.TEXT,
+  },
+};
+
+const GOAL_PIVOT_METRICS = {
+  pivot_nb_conversions: {
+    name: 'Goal Conversions',
+    goalMetric: 'nb_conversions',
+    matomoType: 'number',
+  },
+  pivot_revenue: {
+    name: 'Goal Revenue',
+    goalMetric: 'revenue',
+    matomoType: 'money',
+  },
+  pivot_conversion_rate: {
+    name: 'Goal Conversion Rate',
+    goalMetric: 'conversion_rate',
+    matomoType: 'percent',
+  },
+};
+
+// ratios computed by Looker Studio from additive metrics, so they stay correct when rows are filtered or grouped
+const CALCULATED_METRICS = {
+  calculated_bounce_rate: {
+    name: 'Bounce Rate (Calculated)',
+    numerator: 'bounce_count',
+    denominator: 'nb_visits',
+    matomoType: 'percent',
   },
-  date_month: {
-    name: 'Month',
-    type: cc.FieldType.YEAR_MONTH,
-    daysInPeriod: 30,
+  calculated_conversion_rate: {
+    name: 'Conversion Rate (Calculated)',
+    numerator: 'nb_conversions',
+    denominator: 'nb_visits',
+    matomoType: 'percent',
   },
-  date_week: {
-    name: 'Week (Mon - Sun)',
-    type: cc.FieldType.YEAR_WEEK,
-    daysInPeriod: 7,
+  calculated_revenue_per_visit: {
+    name: 'Revenue per Visit (Calculated)',
+    numerator: 'revenue',
+    denominator: 'nb_visits',
+    matomoType: 'money',
   },
-  date_year: {
-    name: 'Year',
-    type: cc.FieldType.YEAR,
-    daysInPeriod: 365,
+  calculated_actions_per_visit: {
+    name: 'Actions per Visit (Calculated)',
+    numerator: 'nb_actions',
+    denominator: 'nb_visits',
+    matomoType: 'number',
   },
 };
 
@@ -73,21 +468,36 @@ export function getMatomoSemanticTypeToLookerMapping() {
   return MATOMO_SEMANTIC_TYPE_TO_LOOKER_MAPPING;
 }
 
-function mapMatomoSemanticTypeToLooker(matomoType: string, siteCurrencyCode: string) {
+export function mapMatomoSemanticTypeToLooker(matomoType: string, siteCurrencyCode: string) {
   let mapped = MATOMO_SEMANTIC_TYPE_TO_LOOKER_MAPPING[matomoType] || cc.FieldType.TEXT;
   if (mapped === 'currency') {
     // NOTE: not all currencies supported in Matomo are supported by looker studio
-    mapped = cc.FieldType[`CURRENCY_${siteCurrencyCode.toUpperCase()}`] || cc.FieldType.NUMBER;
+    mapped = cc.FieldType[`CURRENCY_${(siteCurrencyCode || '').toUpperCase()}`] || cc.FieldType.NUMBER;
   }
   return mapped;
 }
 
+/**
+ * Returns the maximum number of rows to fetch set in the "Default Row Limit" config control, or -1 if
+ * there is no maximum.
+ */
+export function getRowLimit(params: ConnectorParams) {
+  if (!params.filter_limit) {
+    return -1;
+  }
+
+  const rowLimit = parseInt(params.filter_limit, 10);
+  if (rowLimit <= 0 || Number.isNaN(rowLimit)) {
+    throwUserError(`Invalid default row limit ${rowLimit} supplied.`);
+  }
+  return rowLimit;
+}
+
 function getReportMetadataAndGoalsAndCurrency(request: GoogleAppsScript.Data_Studio.Request<ConnectorParams>) {
   const idSite = request.configParams.idsite;
-  const report = request.configParams.report;
   const segment = request.configParams.segment || '';
 
-  const reportParams = JSON.parse(report) as Record<string, string>;
+  const reportParams = getReportParams(request.configParams);
 
   let apiParameters: Record<string, string> = {};
   Object.entries(reportParams).forEach(([k, v]) => {
@@ -125,8 +535,16 @@ function getReportMetadataAndGoalsAndCurrency(request: GoogleAppsScript.Data_Stu
         method: 'SitesManager.getSiteFromId',
         params: { idSite: `${idSite}` },
       },
-    ],
-    { throwOnFailedRequest: true }
+      request.configParams.idsites ? {
+        method: 'SitesManager.getSitesWithAtLeastViewAccess',
+        params: { filter_limit: '-1' },
+      } : null,
+      request.configParams.segments ? {
+        method: 'SegmentEditor.getAll',
+        params: { idSite: `${idSite}`, filter_limit: '-1' },
+      } : null,
+    ].filter((r) => !!r),
+    { throwOnFailedRequest: true, useBulkRequest: true }
   );
 
   let result = response[0] as Api.ReportMetadata;
@@ -138,86 +556,272 @@ function getReportMetadataAndGoalsAndCurrency(request: GoogleAppsScript.Data_Stu
     result = null;
   }
 
-  const goals = response[1] as Record<string, Api.Goal>;
+  const goals = getSelectedGoals(request.configParams, response[1] as Record<string, Api.Goal>);
+
+  let siteCurrency = (response[2] as Api.Site).currency;
+  const siteTimezone = (response[2] as Api.Site).timezone;
+
+  let responseIndex = 3;
+  const sites = getSelectedSites(request.configParams, (request.configParams.idsites ? response[responseIndex++] : []) as Api.Site[]);
+  if (sites && !sites.length) {
+    throwUserError('None of the websites selected when configuring the connector can be accessed. Please go back and select them again.');
+  }
+
+  if (sites) {
+    // revenue metrics can only be displayed w/ a currency if every website uses the same one
+    const currencies = sites
+      .map((s) => s.currency)
+      .filter((currency, index, all) => all.indexOf(currency) === index);
+    siteCurrency = currencies.length === 1 ? currencies[0] : '';
+  }
 
-  const siteCurrency = (response[2] as Api.Site).currency;
+  let segments: Api.StoredSegment[]|null = null;
+  if (request.configParams.segments) {
+    const storedSegments = response[responseIndex++] as Api.StoredSegment[];
+    segments = request.configParams.segments.split(',')
+      .map((id) => {
+        if (id === ALL_VISITS_SEGMENT_ID) {
+          return { name: 'All Visits', definition: '' };
+        }
+        return storedSegments.find((s) => `${s.idsegment}` === id);
+      })
+      .filter((s) => !!s);
+
+    if (!segments.length) {
+      throwUserError('None of the segments selected for comparison when configuring the connector can be found. Please go back and select them again.');
+    }
+  }
 
-  return { reportMetadata: result, goals, siteCurrency };
+  return { reportMetadata: result, goals, siteCurrency, siteTimezone, sites, segments };
 }
 
-function getMatomoPeriodDateRange(period: string, date: string) {
-  const dateObj = new Date(date);
+/**
+ * Returns the date range to compare the requested date range with, ie, the previous period of the same length
+ * or the same range in the previous year.
+ */
+// exported for tests
+export function getComparisonDateRange(dateRange: GoogleAppsScript.Data_Studio.DateRange, comparison: string) {
+  const startDate = dayjs(dateRange.startDate);
+  const endDate = dayjs(dateRange.endDate);
+
+  if (comparison === 'previous_year') {
+    return {
+      startDate: startDate.subtract(1, 'year').format('YYYY-MM-DD'),
+      endDate: endDate.subtract(1, 'year').format('YYYY-MM-DD'),
+    };
+  }
 
-  if (period === 'day') {
-    return [dateObj, dateObj];
+  if (comparison === 'previous_period') {
+    const daysInRange = endDate.diff(startDate, 'day') + 1;
+    return {
+      startDate: startDate.subtract(daysInRange, 'day').format('YYYY-MM-DD'),
+      endDate: startDate.subtract(1, 'day').format('YYYY-MM-DD'),
+    };
   }
 
-  if (period === 'week') {
-    const daysToMonday = (dateObj.getDay() + 6) % 7;
+  throw new Error(`unknown comparison ${comparison}`);
+}
 
-    const startWeek = new Date(dateObj.getTime());
-    startWeek.setDate(dateObj.getDate() - daysToMonday);
+/**
+ * Copies the metrics of the compared period in a row's `comparisons` into `prev_<metric>` columns and
+ * calculates the relative change into `delta_<metric>` columns.
+ */
+function addComparisonColumns(row: DataTableRow & { comparisons?: DataTableRow[] }, compareDate: string) {
+  const { comparisons, ...rowWithoutComparisons } = row;
+  if (!Array.isArray(comparisons)) {
+    return rowWithoutComparisons;
+  }
 
-    const endWeek = new Date(startWeek.getTime());
-    endWeek.setDate(startWeek.getDate() + 6);
+  const comparisonRow = comparisons.find((c) => c.compareDate === compareDate) || comparisons[comparisons.length - 1];
+  if (!comparisonRow) {
+    return rowWithoutComparisons;
+  }
 
-    return [startWeek, endWeek];
+  const result: DataTableRow = { ...rowWithoutComparisons };
+  Object.entries(comparisonRow).forEach(([column, previousValue]) => {
+    const currentValue = row[column];
+    if (typeof currentValue === 'undefined' || column === 'label') {
+      return;
+    }
+
+    result[`prev_${column}`] = previousValue;
+
+    const current = parseFloat(`${currentValue}`);
+    const previous = parseFloat(`${previousValue}`);
+    if (!Number.isNaN(current) && !Number.isNaN(previous) && previous !== 0) {
+      result[`delta_${column}`] = (current - previous) / previous;
+    }
+  });
+  return result;
+}
+
+/**
+ * Returns the number of subtable levels to fetch for the report, or 0 if the report should be fetched flattened.
+ */
+function getHierarchyDepth(configParams: ConnectorParams, reportMetadata: Api.ReportMetadata|null) {
+  const isHierarchical = configParams.hierarchical === true || `${configParams.hierarchical}` === 'true';
+  if (!isHierarchical || !reportMetadata?.actionToLoadSubTables) {
+    return 0;
   }
 
-  if (period === 'month') {
-    const startMonth = new Date(dateObj.getTime());
-    startMonth.setDate(1);
+  let depth = parseInt(configParams.hierarchy_max_depth, 10);
+  if (Number.isNaN(depth) || depth <= 0) {
+    depth = DEFAULT_HIERARCHY_MAX_DEPTH;
+  }
+  return Math.min(depth, MAX_HIERARCHY_MAX_DEPTH);
+}
 
-    const endMonth = new Date(dateObj.getTime());
-    endMonth.setDate(1);
-    endMonth.setMonth(endMonth.getMonth() + 1);
-    endMonth.setDate(0);
+function isGoalPivotMode(configParams: ConnectorParams, reportMetadata: Api.ReportMetadata|null) {
+  const isGoalPivot = configParams.goal_pivot === true || `${configParams.goal_pivot}` === 'true';
+  return isGoalPivot && !!(reportMetadata?.metricsGoal || reportMetadata?.processedMetricsGoal);
+}
 
-    return [startMonth, endMonth];
+// exported for tests
+export function pivotGoalRows(rows: DataTableRow[], goals: Record<string, Api.Goal>) {
+  const pivotedRows: DataTableRow[] = [];
+  rows.forEach((row) => {
+    Object.values(goals || {}).forEach((goal) => {
+      const pivotedRow: DataTableRow = { ...row, pivot_goal: goal.name };
+      Object.entries(GOAL_PIVOT_METRICS).forEach(([id, { goalMetric }]) => {
+        pivotedRow[id] = row[`goal_${goal.idgoal}_${goalMetric}`];
+      });
+      pivotedRows.push(pivotedRow);
+    });
+  });
+  return pivotedRows;
+}
+
+function getHierarchyDimensions(dimensionName: string, depth: number) {
+  const dimensions: Record<string, string> = {};
+  for (let level = 1; level <= depth; level += 1) {
+    dimensions[`label_level_${level}`] = `${dimensionName} (Level ${level})`;
   }
+  dimensions.label_path = `${dimensionName} (Full Path)`;
+  return dimensions;
+}
+
+/**
+ * Converts rows fetched with expanded=1 into one row per leaf (or per row at the maximum depth), adding
+ * a dimension for the label of each level and one for the full path.
+ */
+function flattenSubtables(
+  rows: DataTableRow[],
+  maxDepth: number,
+  pathSeparator: string,
+  parentLabels: string[] = [],
+): DataTableRow[] {
+  const result: DataTableRow[] = [];
+  rows.forEach((row) => {
+    const { subtable, ...rowWithoutSubtable } = row as DataTableRow & { subtable?: DataTableRow[] };
+
+    const labels = [...parentLabels, `${row.label}`.trim()];
+    if (Array.isArray(subtable) && subtable.length && labels.length < maxDepth) {
+      result.push(...flattenSubtables(subtable, maxDepth, pathSeparator, labels));
+      return;
+    }
+
+    const levels: DataTableRow = {};
+    labels.forEach((label, index) => {
+      levels[`label_level_${index + 1}`] = label;
+    });
+
+    let path = labels.join(pathSeparator);
+    if (pathSeparator === '/') {
+      path = `/${labels.map((label) => label.replace(/^\/+|\/+$/g, '')).join('/')}`;
+    }
+
+    result.push({ ...rowWithoutSubtable, ...levels, label_path: path });
+  });
+  return result;
+}
+
+/**
+ * Splits a Matomo API response into groups of rows. If the request was for multiple sites, the
+ * response is keyed by site ID, and if it was for multiple periods, the response (or the output for
+ * each site) is keyed by period.
+ */
+function getRowGroupsFromResponse(response: any, isMultiSite: boolean, isMultiPeriod: boolean) {
+  const groups: { idsite?: string, date?: string, rows: DataTableRow[] }[] = [];
+
+  // API methods that return DataTable\Simple instances are just one row, not an array of rows
+  const toRows = (rows: any): DataTableRow[] => {
+    if (!rows) {
+      return [];
+    }
+    return Array.isArray(rows) ? rows : [rows];
+  };
 
-  if (period === 'year') {
-    const startYear = new Date(dateObj.getTime());
-    startYear.setMonth(0);
-    startYear.setDate(1);
+  const addPeriodGroups = (output: any, idsite?: string) => {
+    if (!isMultiPeriod) {
+      groups.push({ idsite, rows: toRows(output) });
+      return;
+    }
 
-    const endYear = new Date(dateObj.getTime());
-    endYear.setMonth(12);
-    endYear.setDate(0);
+    Object.entries(output || {}).forEach(([date, rows]) => {
+      groups.push({ idsite, date, rows: toRows(rows) });
+    });
+  };
 
-    return [startYear, endYear];
+  if (isMultiSite) {
+    Object.entries(response || {}).forEach(([idsite, output]) => addPeriodGroups(output, idsite));
+  } else {
+    addPeriodGroups(response);
   }
 
-  throw new Error(`unknown matomo period ${period}`);
+  return groups;
 }
 
-// exported for tests
-export function detectMatomoPeriodFromRange(dateRange: GoogleAppsScript.Data_Studio.DateRange) {
-  const startDateTime = (new Date(dateRange.startDate)).getTime();
-  const endDateTime = (new Date(dateRange.endDate)).getTime();
-
-  const standardMatomoPeriods = ['day', 'week', 'month', 'year'];
-  const periodMatch = standardMatomoPeriods.find((period) => {
-    const [matomoPeriodStart, matomoPeriodEnd] = getMatomoPeriodDateRange(period, dateRange.startDate);
-    return startDateTime === matomoPeriodStart.getTime() && endDateTime === matomoPeriodEnd.getTime();
+interface ReportDataOptions {
+  filterParams?: Record<string, string>;
+  sites?: Api.Site[]|null;
+  hierarchyDepth?: number;
+  segments?: Api.StoredSegment[]|null;
+  idGoal?: string;
+  combinableMetrics?: string[]|null; // if set, date ranges are fetched as archived periods and these metrics summed
+}
+
+/**
+ * Combines the rows fetched for each of the periods a date range was split into, summing the metrics.
+ */
+function combinePeriodRows(rows: DataTableRow[], metricIds: string[], dimensionIds: string[]) {
+  const rowsByDimensionValues: Record<string, DataTableRow> = {};
+  rows.forEach((row) => {
+    const key = JSON.stringify(dimensionIds.map((id) => row[id]));
+
+    const existing = rowsByDimensionValues[key];
+    if (!existing) {
+      rowsByDimensionValues[key] = { ...row };
+      return;
+    }
+
+    metricIds.forEach((id) => {
+      if (typeof row[id] !== 'undefined' && row[id] !== false) {
+        existing[id] = (parseFloat(`${existing[id] || 0}`) || 0) + (parseFloat(`${row[id]}`) || 0);
+      }
+    });
   });
-  return periodMatch;
+
+  return Object.values(rowsByDimensionValues);
 }
 
-function getReportData(request: GoogleAppsScript.Data_Studio.Request<ConnectorParams>, requestedFields: { name: string }[]) {
+function getReportData(
+  request: GoogleAppsScript.Data_Studio.Request<ConnectorParams>,
+  requestedFields: { name: string }[],
+  {
+    filterParams = {},
+    sites = null,
+    hierarchyDepth = 0,
+    segments = null,
+    idGoal = '0',
+    combinableMetrics = null,
+  }: ReportDataOptions = {},
+) {
   const idSite = request.configParams.idsite;
-  const report = request.configParams.report;
   const segment = request.configParams.segment || '';
 
-  let filter_truncate = -1;
-  if (request.configParams.filter_limit) {
-    filter_truncate = parseInt(request.configParams.filter_limit, 10);
-    if (filter_truncate <= 0 || Number.isNaN(filter_truncate)) {
-      throwUserError(`Invalid default row limit ${filter_truncate} supplied.`);
-    }
-  }
+  const filter_truncate = getRowLimit(request.configParams);
 
-  const reportParams = JSON.parse(report) as Record<string, string>;
+  const reportParams = getReportParams(request.configParams);
 
   const apiMethod = `${reportParams.apiModule}.${reportParams.apiAction}`;
   if (apiMethod === 'MultiSites.getAll') {
@@ -235,122 +839,258 @@ function getReportData(request: GoogleAppsScript.Data_Studio.Request<ConnectorPa
   if (!SHOW_COLUMNS_UNSUPPORTED_METHODS.includes(apiMethod)
     && reportParams.apiAction !== 'get' // showColumns does not work for API methods like API.get or VisitFrequency.get
   ) {
-    showColumns = (requestedFields.map(({name}) => name)).join(',');
+    showColumns = requestedFields
+      .map(({ name }) => name.replace(/^(prev|delta)_/, ''))
+      .filter((name, index, all) => all.indexOf(name) === index)
+      .join(',');
+
+    // the label of every level is needed to build the hierarchy dimensions
+    if (hierarchyDepth > 0) {
+      showColumns = `label,${showColumns}`;
+    }
   }
 
   let rowsToFetchAtATime = parseInt(env.MAX_ROWS_TO_FETCH_PER_REQUEST, 10) || 100000;
 
-  const dateMetricIfPresent = request.fields && request.fields
-    .filter((f) => DATE_DIMENSIONS[f.name])
-    .pop(); // always use the last occurrence, since 'date' will be requested along with the other dimension
+  const dateDimensionIds = (request.fields || [])
+    .map((f) => f.name)
+    .filter((name) => DATE_DIMENSIONS[name]);
+  const hasDateDimensions = dateDimensionIds.length > 0;
 
   let period = 'range';
   let date = `${request.dateRange.startDate},${request.dateRange.endDate}`;
+  let periodsToFetch = [{ period, date }];
+  let isRangeDecomposed = false;
 
-  if (dateMetricIfPresent) {
-    period = dateMetricIfPresent.name.split('_')[1] || 'day';
-
-    // note: this calculation is imprecise, but it's good enough for determining row counts
-    const MS_IN_DAY = 1000 * 60 * 60 * 24;
+  if (hasDateDimensions) {
+    period = getMatomoPeriodForDateDimensions(dateDimensionIds);
 
-    let numberOfPeriods = Math.round(((new Date(request.dateRange.endDate)).getTime() - (new Date(request.dateRange.startDate)).getTime()) / MS_IN_DAY);
-    numberOfPeriods = numberOfPeriods / DATE_DIMENSIONS[dateMetricIfPresent.name].daysInPeriod;
-    numberOfPeriods = Math.max(numberOfPeriods, 1);
+    // the periods are split into chunks that are fetched in parallel
+    const chunks = splitDateRangeIntoChunks(
+      request.dateRange.startDate,
+      request.dateRange.endDate,
+      period,
+      getMaxConcurrentRequests(),
+    );
+    periodsToFetch = chunks.map((chunk) => ({ period, date: chunk.date }));
 
     // if we fetch multiple days, the filter_limit will be applied to every day. so we need to change the rows
     // to fetch to make sure we only select MAX_ROWS_TO_FETCH_PER_REQUEST in total.
+    const numberOfPeriods = Math.max(...chunks.map((chunk) => chunk.numberOfPeriods), 1);
     rowsToFetchAtATime = Math.floor(rowsToFetchAtATime / numberOfPeriods);
-    rowsToFetchAtATime = Math.max(rowsToFetchAtATime, 1);
   } else {
     const matomoPeriod = detectMatomoPeriodFromRange(request.dateRange);
     if (matomoPeriod) {
       period = matomoPeriod;
       date = request.dateRange.startDate;
+      periodsToFetch = [{ period, date }];
     }
   }
 
-  // request report data one large chunk at a time to make sure we don't hit the 50mb HTTP response size limit
-  // for apps scripts
-  let response: Record<string, DataTableRow[]> = {};
+  // ranges that aren't a single period would be archived by Matomo on the fly, so we fetch the periods within
+  // them that are likely already archived in parallel instead, and add them up
+  if (period === 'range' && combinableMetrics) {
+    periodsToFetch = decomposeDateRange(request.dateRange.startDate, request.dateRange.endDate);
+    isRangeDecomposed = true;
+    rowsToFetchAtATime = Math.floor(rowsToFetchAtATime / periodsToFetch.length);
+  }
 
-  let offset = 0;
+  // the filter_limit is also applied to every site when fetching data for multiple sites
+  if (sites) {
+    rowsToFetchAtATime = Math.floor(rowsToFetchAtATime / Math.max(sites.length, 1));
+  }
 
-  let hasMoreRowsToFetch = true;
-  while (hasMoreRowsToFetch) {
-    const limitToUse = filter_truncate < 0 || filter_truncate >= rowsToFetchAtATime ? rowsToFetchAtATime : filter_truncate;
+  rowsToFetchAtATime = Math.max(rowsToFetchAtATime, 1);
 
-    const params: Record<string, string> = {
-      ...reportParams,
-      idSite: `${idSite}`,
-      period,
-      date,
-      segment,
-      format_metrics: '0',
-      flat: '1',
-      filter_truncate: filter_truncate <= 0 ? undefined : `${filter_truncate - 1}`,
-      filter_limit: `${limitToUse}`,
-      filter_offset: `${offset}`,
-      showColumns,
-      apiModule: undefined,
-      apiAction: undefined,
+  let idSiteParam = `${idSite}`;
+  if (sites) {
+    idSiteParam = request.configParams.idsites.split(',').includes('all') ? 'all' : sites.map((s) => s.idsite).join(',');
+  }
+
+  // Matomo only indexes the output by site if more than one site is requested
+  const isMultiSiteResponse = idSiteParam === 'all' || idSiteParam.includes(',');
+
+  // Matomo does not support comparing requests for multiple periods or sites
+  let comparisonParams: Record<string, string> = {};
+  let compareDate: string;
+  if (COMPARISONS[request.configParams.comparison] && !hasDateDimensions && !isMultiSiteResponse) {
+    const comparisonDateRange = getComparisonDateRange(request.dateRange, request.configParams.comparison);
+    const isSingleDay = comparisonDateRange.startDate === comparisonDateRange.endDate;
+
+    compareDate = isSingleDay ? comparisonDateRange.startDate : `${comparisonDateRange.startDate},${comparisonDateRange.endDate}`;
+    comparisonParams = {
+      'compareDates[0]': compareDate,
+      'comparePeriods[0]': isSingleDay ? 'day' : 'range',
     };
+  }
 
-    if (reportParams.apiModule !== 'Goals' && typeof params.idGoal === 'undefined') {
-      params.filter_update_columns_when_show_all_goals = '1';
-      params.idGoal = '0'; // calculate extra metrics for all goals
-    }
+  // request report data one large chunk at a time to make sure we don't hit the 50mb HTTP response size limit
+  // for apps scripts. every segment and group of periods is fetched independently, so the pages of each can be
+  // requested in parallel.
+  const segmentsToFetch = segments || [{ name: '', definition: segment }];
+
+  const limitToUse = filter_truncate < 0 || filter_truncate >= rowsToFetchAtATime ? rowsToFetchAtATime : filter_truncate;
+
+  const params: Record<string, string> = {
+    ...reportParams,
+    idSite: idSiteParam,
+    format_metrics: '0',
+    flat: hierarchyDepth > 0 ? '0' : '1',
+    expanded: hierarchyDepth > 0 ? '1' : undefined,
+    depth: hierarchyDepth > 0 && reportParams.apiModule === 'Actions' ? `${hierarchyDepth}` : undefined,
+    filter_truncate: filter_truncate <= 0 ? undefined : `${filter_truncate - 1}`,
+    showColumns,
+    ...filterParams,
+    ...comparisonParams,
+    apiModule: undefined,
+    apiAction: undefined,
+  };
+
+  if (reportParams.apiModule !== 'Goals' && typeof params.idGoal === 'undefined') {
+    params.filter_update_columns_when_show_all_goals = '1';
+    params.idGoal = idGoal; // calculate extra metrics for all goals (0) or the single selected goal
+  }
 
-    let partialResponseRaw = Api.fetch<DataTableRow[]|Record<string, DataTableRow[]>>(`${reportParams.apiModule}.${reportParams.apiAction}`, params, {
-      checkRuntimeLimit: true,
+  const chains: { segmentIndex: number, periodIndex: number }[] = [];
+  segmentsToFetch.forEach((_, segmentIndex) => {
+    periodsToFetch.forEach((_, periodIndex) => {
+      chains.push({ segmentIndex, periodIndex });
+    });
+  });
+
+  const pagesOfChains = fetchAllPages(
+    apiMethod,
+    chains.map(({ segmentIndex, periodIndex }) => ({
+      ...params,
+      ...periodsToFetch[periodIndex],
+      segment: segmentsToFetch[segmentIndex].definition,
+    })),
+    {
+      pageSize: limitToUse,
+      maxRows: filter_truncate,
+      hasMorePages: (page) => getRowGroupsFromResponse(page, isMultiSiteResponse, hasDateDimensions)
+        .some(({ rows }) => rows.length >= limitToUse),
       runtimeLimitAbortMessage: pastScriptRuntimeLimitErrorMessage,
+    },
+  );
+
+  const response: Record<string, DataTableRow[]> = {};
+  pagesOfChains.forEach((pages, chainIndex) => {
+    const { segmentIndex, periodIndex } = chains[chainIndex];
+
+    pages.forEach((page) => {
+      const rowGroups = getRowGroupsFromResponse(page, isMultiSiteResponse, hasDateDimensions);
+      rowGroups.forEach(({ idsite, date, rows }) => {
+        const groupKey = `${segmentIndex}.${periodIndex}.${idsite || ''}.${date || ''}`;
+        if (!response[groupKey]) {
+          response[groupKey] = [];
+        }
+
+        if (hierarchyDepth > 0) {
+          // URL reports are separated by / in Matomo, everything else by ' - '
+          const pathSeparator = reportParams.apiModule === 'Actions' && /Url/.test(reportParams.apiAction) ? '/' : ' - ';
+          rows = flattenSubtables(rows, hierarchyDepth, pathSeparator);
+        }
+
+        if (compareDate) {
+          rows = rows.map((r) => addComparisonColumns(r, compareDate));
+        }
+
+        response[groupKey].push(...rows.map((r) => ({
+          ...r,
+          ...(date ? { date } : {}),
+          ...(sites ? { idsite: idsite || idSiteParam } : {}),
+          ...(segments ? { compared_segment: segmentsToFetch[segmentIndex].name } : {}),
+        })));
+      });
     });
+  });
 
-    if (!partialResponseRaw) {
-      continue; // request failed in some unknown way
-    }
+  let flattenedResponse = [];
+  Object.values(response).forEach((rows) => flattenedResponse.push(...rows));
 
-    if ((partialResponseRaw as any).value === false) {
-      break; // nothing returned by request
-    }
+  if (isRangeDecomposed && periodsToFetch.length > 1) {
+    const dimensionIds = ['label', 'idsite', 'compared_segment', ...requestedFields.map(({ name }) => name)]
+      .filter((id) => !combinableMetrics.includes(id));
+    flattenedResponse = combinePeriodRows(flattenedResponse, combinableMetrics, dimensionIds);
+  }
 
-    const partialResponse = dateMetricIfPresent ? partialResponseRaw as Record<string, DataTableRow[]> : { [date]: partialResponseRaw as DataTableRow[] };
-    Object.entries(partialResponse).forEach(([date, rows]) => {
-      if (!rows) {
-        rows = [];
-      }
+  return flattenedResponse;
+}
 
-      if (!response[date]) {
-        response[date] = [];
-      }
+// exported for tests
+export function getMetricAggregationType(metricId: string, matomoType: string): 'SUM'|null {
+  // metrics for compared periods and goal rows aggregate the same way as the original metric
+  const baseMetricId = metricId.replace(/^(prev|pivot)_/, '').replace(/^goal_[^_]+_/, '');
 
-      if (dateMetricIfPresent) {
-        response[date].push(...rows.map((r) => ({ ...r, date })));
-      } else {
-        response[date].push(...rows);
-      }
-    });
+  if (ADDITIVE_METRICS.includes(baseMetricId)) {
+    return 'SUM';
+  }
 
-    offset += limitToUse;
+  if (NON_ADDITIVE_METRIC_PATTERNS.some((pattern) => pattern.test(baseMetricId))) {
+    return null;
+  }
 
-    hasMoreRowsToFetch = Object.values(partialResponse).some((rows) => rows.length >= limitToUse)
-      && (filter_truncate < 0
-        || offset < filter_truncate);
+  if (/^(nb|sum)_/.test(baseMetricId) && ADDITIVE_MATOMO_TYPES.includes(matomoType)) {
+    return 'SUM';
   }
 
-  const flattenedResponse = [];
-  Object.values(response).forEach((rows) => flattenedResponse.push(...rows));
-  return flattenedResponse;
+  return null;
+}
+
+interface MetricDetails {
+  description?: string;
+  group?: string;
 }
 
-function addMetric(fields: GoogleAppsScript.Data_Studio.Fields, id: string, name: string, matomoType: string, siteCurrency: string) {
+function addMetric(
+  fields: GoogleAppsScript.Data_Studio.Fields,
+  id: string,
+  name: string,
+  matomoType: string,
+  siteCurrency: string,
+  { description, group }: MetricDetails = {},
+) {
   let type = mapMatomoSemanticTypeToLooker(matomoType, siteCurrency);
 
-  fields
+  const field = fields
     .newMetric()
     .setId(id)
     .setName(name)
-    .setType(type)
-    .setIsReaggregatable(false);
+    .setType(type);
+
+  if (description) {
+    field.setDescription(description);
+  }
+
+  if (group) {
+    field.setGroup(group);
+  }
+
+  if (getMetricAggregationType(id, matomoType) === 'SUM') {
+    field
+      .setIsReaggregatable(true)
+      .setAggregation(cc.AggregationType.SUM);
+  } else {
+    field.setIsReaggregatable(false);
+  }
+}
+
+function addCalculatedMetrics(fields: GoogleAppsScript.Data_Studio.Fields, siteCurrency: string) {
+  Object.entries(CALCULATED_METRICS).forEach(([id, { name, numerator, denominator, matomoType }]) => {
+    if (!fields.getFieldById(numerator) || !fields.getFieldById(denominator)) {
+      return;
+    }
+
+    fields
+      .newMetric()
+      .setId(id)
+      .setName(name)
+      .setType(mapMatomoSemanticTypeToLooker(matomoType, siteCurrency))
+      .setFormula(`SUM($${numerator}) / SUM($${denominator})`)
+      .setIsReaggregatable(false)
+      .setAggregation(cc.AggregationType.AUTO);
+  });
 }
 
 function addDimension(fields: GoogleAppsScript.Data_Studio.Fields, id: string, dimension: string) {
@@ -361,20 +1101,21 @@ function addDimension(fields: GoogleAppsScript.Data_Studio.Fields, id: string, d
     .setType(cc.FieldType.TEXT);
 }
 
-function addDateDimensions(
+function addConnectorDimensions(
   fields: GoogleAppsScript.Data_Studio.Fields,
-  includeOnly: string[] = Object.keys(DATE_DIMENSIONS),
+  dimensions: Record<string, { name: string, type: GoogleAppsScript.Data_Studio.FieldType }>,
+  includeOnly: string[] = Object.keys(dimensions),
 ) {
   includeOnly.forEach((id) => {
-    if (!DATE_DIMENSIONS[id]) {
+    if (!dimensions[id]) {
       return;
     }
 
     fields
       .newDimension()
       .setId(id)
-      .setName(DATE_DIMENSIONS[id].name)
-      .setType(DATE_DIMENSIONS[id].type);
+      .setName(dimensions[id].name)
+      .setType(dimensions[id].type);
   });
 }
 
@@ -390,26 +1131,69 @@ function metricsForEachGoal(metrics: Record<string, string>, goals: Record<strin
   return perGoalMetrics;
 }
 
-function getFieldsFromReportMetadata(reportMetadata: Api.ReportMetadata, goals: Record<string, Api.Goal>, siteCurrency: string, requestedFields?: string[]) {
+interface FieldsOptions {
+  requestedFields?: string[];
+  hierarchyDepth?: number;
+  comparison?: string;
+  goalPivot?: boolean;
+}
+
+function getMatomoTypeForMetric(reportMetadata: Api.ReportMetadata, metricId: string) {
+  const m = metricId.match(/^goal_[^_]+_(.*)/)
+  if (m) {
+    return reportMetadata.metricTypesGoal?.[m[1]];
+  }
+  return reportMetadata.metricTypes?.[metricId];
+}
+
+function getMetricDetails(reportMetadata: Api.ReportMetadata, metricId: string): MetricDetails {
+  const m = metricId.match(/^goal_[^_]+_(.*)/);
+  if (m) {
+    return {
+      description: reportMetadata.metricsGoalDocumentation?.[m[1]],
+      group: METRIC_GROUPS.goal,
+    };
+  }
+
+  return {
+    description: reportMetadata.metricsDocumentation?.[metricId],
+    group: reportMetadata.processedMetrics?.[metricId] ? METRIC_GROUPS.processed : METRIC_GROUPS.core,
+  };
+}
+
+function getFieldsFromReportMetadata(
+  reportMetadata: Api.ReportMetadata,
+  goals: Record<string, Api.Goal>,
+  siteCurrency: string,
+  { requestedFields, hierarchyDepth = 0, comparison, goalPivot = false }: FieldsOptions = {},
+) {
   const fields = cc.getFields();
 
+  const hierarchyDimensions = hierarchyDepth > 0 && reportMetadata.dimension
+    ? getHierarchyDimensions(reportMetadata.dimension, hierarchyDepth)
+    : {};
+
+  const geoDimensions = getGeoDimensions(reportMetadata);
+  const rowMetadataDimensions = getRowMetadataDimensions(reportMetadata);
+
   let allMetrics = {
     ...reportMetadata.metrics,
     ...reportMetadata.processedMetrics,
   };
 
-  if (reportMetadata.metricsGoal) {
+  // when goals are shown as rows, generic goal metrics are used instead of metrics for each goal
+  if (reportMetadata.metricsGoal && !goalPivot) {
     allMetrics = { ...allMetrics, ...metricsForEachGoal(reportMetadata.metricsGoal, goals) };
   }
 
-  if (reportMetadata.processedMetricsGoal) {
+  if (reportMetadata.processedMetricsGoal && !goalPivot) {
     allMetrics = { ...allMetrics, ...metricsForEachGoal(reportMetadata.processedMetricsGoal, goals) };
   }
 
   if (reportMetadata.metricsGoal || reportMetadata.processedMetricsGoal) {
     // add goal specific conversion_rate if not present in metadata, but other goal metrics are
     // (in 4.x-dev, this is removed in the API despite the data being available)
-    if (!reportMetadata.metricsGoal?.conversion_rate && !reportMetadata.processedMetricsGoal?.conversion_rate) {
+    if (!reportMetadata.metricsGoal?.conversion_rate && !reportMetadata.processedMetricsGoal?.conversion_rate && !goalPivot) {
       allMetrics = { ...allMetrics, ...metricsForEachGoal({ 'conversion_rate': 'Conversion Rate' }, goals) };
     }
 
@@ -437,6 +1221,23 @@ function getFieldsFromReportMetadata(reportMetadata: Api.ReportMetadata, goals:
     } else if (reportMetadata.dimension) {
       addDimension(fields, 'label', reportMetadata.dimension);
     }
+
+    Object.entries(hierarchyDimensions).forEach(([id, name]) => {
+      addDimension(fields, id, name);
+    });
+
+    if (goalPivot) {
+      addConnectorDimensions(fields, GOAL_PIVOT_DIMENSIONS);
+    }
+  }
+
+  // metrics for the compared period and the change from it
+  const comparisonMetrics: Record<string, { name: string, baseMetricId: string, isChange: boolean }> = {};
+  if (COMPARISONS[comparison]) {
+    Object.entries(allMetrics).forEach(([id, name]) => {
+      comparisonMetrics[`prev_${id}`] = { name: `${name} (${COMPARISONS[comparison].name})`, baseMetricId: id, isChange: false };
+      comparisonMetrics[`delta_${id}`] = { name: `${name} (Change vs ${COMPARISONS[comparison].name})`, baseMetricId: id, isChange: true };
+    });
   }
 
   const allFieldsSorted = Object.keys(allMetrics);
@@ -450,6 +1251,12 @@ function getFieldsFromReportMetadata(reportMetadata: Api.ReportMetadata, goals:
     allFieldsSorted.unshift('nb_visits');
   }
 
+  if (goalPivot) {
+    allFieldsSorted.push(...Object.keys(GOAL_PIVOT_METRICS));
+  }
+
+  allFieldsSorted.push(...Object.keys(comparisonMetrics));
+
   (requestedFields || allFieldsSorted).forEach((metricId) => {
     if (fields.getFieldById(metricId)) {
       return;
@@ -466,31 +1273,69 @@ function getFieldsFromReportMetadata(reportMetadata: Api.ReportMetadata, goals:
       addDateDimensions(fields, [metricId]);
     }
 
+    if (SITE_DIMENSIONS[metricId]) {
+      addConnectorDimensions(fields, SITE_DIMENSIONS, [metricId]);
+      return;
+    }
+
+    if (SEGMENT_DIMENSIONS[metricId]) {
+      addConnectorDimensions(fields, SEGMENT_DIMENSIONS, [metricId]);
+      return;
+    }
+
+    if (hierarchyDimensions[metricId]) {
+      addDimension(fields, metricId, hierarchyDimensions[metricId]);
+      return;
+    }
+
+    if (FRESHNESS_DIMENSIONS[metricId]) {
+      addConnectorDimensions(fields, FRESHNESS_DIMENSIONS, [metricId]);
+      return;
+    }
+
+    if (geoDimensions[metricId]) {
+      addConnectorDimensions(fields, geoDimensions, [metricId]);
+      return;
+    }
+
+    if (rowMetadataDimensions[metricId]) {
+      addConnectorDimensions(fields, rowMetadataDimensions, [metricId]);
+      return;
+    }
+
+    if (goalPivot && GOAL_PIVOT_DIMENSIONS[metricId]) {
+      addConnectorDimensions(fields, GOAL_PIVOT_DIMENSIONS, [metricId]);
+      return;
+    }
+
     if (reportMetadata.dimensions?.[metricId]) {
       addDimension(fields, metricId, reportMetadata.dimensions[metricId]);
       return;
     }
 
     if (allMetrics[metricId]) {
-      let matomoType: string;
-
-      const m = metricId.match(/^goal_\d+_(.*)/)
-      if (m) {
-        matomoType = reportMetadata.metricTypesGoal?.[m[1]];
-      } else {
-        matomoType = reportMetadata.metricTypes?.[metricId];
-      }
-      matomoType = matomoType || 'text';
-
-      addMetric(fields, metricId, allMetrics[metricId], matomoType, siteCurrency);
+      const matomoType = getMatomoTypeForMetric(reportMetadata, metricId) || 'text';
+      addMetric(fields, metricId, allMetrics[metricId], matomoType, siteCurrency, getMetricDetails(reportMetadata, metricId));
+    } else if (goalPivot && GOAL_PIVOT_METRICS[metricId]) {
+      const { name, matomoType } = GOAL_PIVOT_METRICS[metricId];
+      addMetric(fields, metricId, name, matomoType, siteCurrency);
+    } else if (comparisonMetrics[metricId]) {
+      const { name, baseMetricId, isChange } = comparisonMetrics[metricId];
+      const matomoType = isChange ? 'percent' : (getMatomoTypeForMetric(reportMetadata, baseMetricId) || 'text');
+      addMetric(fields, metricId, name, matomoType, siteCurrency);
     } else if (metricId === 'nb_uniq_visitors') {
       // to support showing nb_uniq_visitors for day periods, but not others, we need to make sure
       // the metric appears in the schema no matter what date range is required. which means adding
       // it, even if Matomo doesn't mention it in API.getMetadata output.
-      addMetric(fields, 'nb_uniq_visitors', 'Unique Visitors', 'number', siteCurrency);
+      addMetric(fields, 'nb_uniq_visitors', 'Unique Visitors', 'number', siteCurrency, getMetricDetails(reportMetadata, metricId));
     }
   });
 
+  // calculated fields are computed by Looker Studio, so they are never requested in getData()
+  if (!requestedFields?.length) {
+    addCalculatedMetrics(fields, siteCurrency);
+  }
+
   return fields;
 }
 
@@ -508,17 +1353,64 @@ export function getSchema(request: GoogleAppsScript.Data_Studio.Request<Connecto
       throwUserError(`The "Default Row Limit" entered (${request.configParams.filter_limit}) is not valid. Please enter a valid integer or leave it empty.`);
     }
 
-    const { reportMetadata, goals, siteCurrency } = getReportMetadataAndGoalsAndCurrency(request);
+    const reportParams = getReportParams(request.configParams);
+    const missingReportParameter = Object.entries(REPORT_PARAMETERS).find(([name, { apiMethod }]) => (
+      apiMethod === `${reportParams.apiModule}.${reportParams.apiAction}` && !reportParams[name]
+    ));
+    if (missingReportParameter) {
+      throwUserError(`No ${missingReportParameter[1].name} was selected for the report when configuring the connector. Please go back and select one.`);
+    }
+
+    if (request.configParams.hierarchy_max_depth
+      && !(parseInt(request.configParams.hierarchy_max_depth, 10) > 0)
+    ) {
+      throwUserError(`The "Maximum Hierarchy Depth" entered (${request.configParams.hierarchy_max_depth}) is not valid. Please enter a positive integer or leave it empty.`);
+    }
+
+    if (isSameReport(request.configParams.report, getVisitsLogReportParam())) {
+      const result = getVisitsLogSchema(request);
+      debugLog('getSchema(): result is', result);
+      return result;
+    }
+
+    if (isSameReport(request.configParams.report, getAnnotationsReportParam())) {
+      const result = getAnnotationsSchema();
+      debugLog('getSchema(): result is', result);
+      return result;
+    }
+
+    const { reportMetadata, goals, siteCurrency, sites, segments } = getReportMetadataAndGoalsAndCurrency(request);
     if (!reportMetadata) {
       const reportParams = JSON.parse(request.configParams.report);
       throwUnexpectedError(new Error(`The "${reportParams.apiModule}.${reportParams.apiAction}" report cannot be found in the Matomo's report metadata. (All params = ${request.configParams.report})`), 'getSchema()');
     }
 
-    const fields = getFieldsFromReportMetadata(reportMetadata, goals, siteCurrency);
+    const fields = getFieldsFromReportMetadata(reportMetadata, goals, siteCurrency, {
+      hierarchyDepth: getHierarchyDepth(request.configParams, reportMetadata),
+      comparison: request.configParams.comparison,
+      goalPivot: isGoalPivotMode(request.configParams, reportMetadata),
+    });
 
     // add Date field to support time series'
     addDateDimensions(fields);
 
+    // add location code dimensions to support geo charts
+    addConnectorDimensions(fields, getGeoDimensions(reportMetadata));
+
+    // add dimensions for the url, logo, etc. Matomo attaches to report rows
+    addConnectorDimensions(fields, getRowMetadataDimensions(reportMetadata));
+
+    // add dimensions that show whether the data is complete yet
+    addConnectorDimensions(fields, FRESHNESS_DIMENSIONS);
+
+    if (sites) {
+      addConnectorDimensions(fields, SITE_DIMENSIONS);
+    }
+
+    if (segments) {
+      addConnectorDimensions(fields, SEGMENT_DIMENSIONS);
+    }
+
     const result = { schema: fields.build() };
 
     debugLog('getSchema(): result is', result);
@@ -527,6 +1419,30 @@ export function getSchema(request: GoogleAppsScript.Data_Studio.Request<Connecto
   });
 }
 
+/**
+ * Replaces errors returned by Matomo that the user can resolve themselves with messages explaining how.
+ * Other errors are rethrown as is.
+ */
+function rethrowReportDataError(e: unknown) {
+  if (!isMatomoApiError(e)) {
+    throw e;
+  }
+
+  if (e.classification === 'plugin-disabled') {
+    throwUserError(`The selected report requires a plugin that is not enabled in Matomo. Please enable it or select another report. (${e.message})`);
+  }
+
+  if (e.classification === 'auth') {
+    throwUserError(`Matomo denied access to the report's data. Please make sure the token you authorized the connector with has view access to the selected websites. (${e.message})`);
+  }
+
+  if (e.classification === 'quota') {
+    throwUserError('Matomo is currently limiting the number of requests the connector can send. Please try again in a few minutes.');
+  }
+
+  throw e;
+}
+
 export function getData(request: GoogleAppsScript.Data_Studio.Request<ConnectorParams>) {
   return callWithUserFriendlyErrorHandling(`getData(${request.configParams?.report})`, () => {
     debugLog('getData(): request is', request);
@@ -538,9 +1454,30 @@ export function getData(request: GoogleAppsScript.Data_Studio.Request<ConnectorP
       throwUserError('A date range must be supplied.');
     }
 
-    const { reportMetadata, goals, siteCurrency } = getReportMetadataAndGoalsAndCurrency(request);
+    if (isSameReport(request.configParams.report, getVisitsLogReportParam())) {
+      const result = getVisitsLogData(request);
+      debugLog('getData(): result is', { ...result, rows: 'redacted' });
+      return result;
+    }
 
-    const fields = getFieldsFromReportMetadata(reportMetadata, goals, siteCurrency, request.fields?.map((r) => r.name));
+    if (isSameReport(request.configParams.report, getAnnotationsReportParam())) {
+      const result = getAnnotationsData(request);
+      debugLog('getData(): result is', { ...result, rows: 'redacted' });
+      return result;
+    }
+
+    const { reportMetadata, goals, siteCurrency, siteTimezone, sites, segments } = getReportMetadataAndGoalsAndCurrency(request);
+
+    const hierarchyDepth = getHierarchyDepth(request.configParams, reportMetadata);
+    const geoDimensions = getGeoDimensions(reportMetadata);
+    const goalPivot = isGoalPivotMode(request.configParams, reportMetadata);
+
+    const fields = getFieldsFromReportMetadata(reportMetadata, goals, siteCurrency, {
+      requestedFields: request.fields?.map((r) => r.name),
+      hierarchyDepth,
+      comparison: request.configParams.comparison,
+      goalPivot,
+    });
 
     let requestedFields = request.fields;
     if (!requestedFields) {
@@ -551,7 +1488,72 @@ export function getData(request: GoogleAppsScript.Data_Studio.Request<ConnectorP
     // field instances can be garbage collected if we don't request them specifically first
     const requestedFieldObjects = requestedFields.map(({ name }) => fields.getFieldById(name));
 
-    let reportData = getReportData(request, requestedFields);
+    // dimensions that exist as columns in the report output (date, site, segment, geo, row metadata and freshness
+    // dimensions are added by the connector). when fetching hierarchically, Matomo would apply the filter to each level
+    // separately, so nothing is pushed down.
+    const filterableFields = hierarchyDepth > 0 ? [] : fields.asArray()
+      .map((f) => f.isDimension() ? f.getId() : null)
+      .filter((id) => id
+        && !DATE_DIMENSIONS[id]
+        && !SITE_DIMENSIONS[id]
+        && !SEGMENT_DIMENSIONS[id]
+        && !geoDimensions[id]
+        && !ROW_METADATA_DIMENSIONS[id]
+        && !GOAL_PIVOT_DIMENSIONS[id]
+        && !FRESHNESS_DIMENSIONS[id]
+      );
+
+    const { params: filterParams, filtersApplied } = getMatomoFilterParams(request.dimensionsFilters, filterableFields);
+
+    // Matomo can only restrict the goal metrics it calculates to one goal (or all of them), so when several goals
+    // are selected every goal is fetched and only the metrics of the selected goals are used
+    const selectedGoalIds = Object.keys(goals || {});
+    const idGoal = request.configParams.goals && selectedGoalIds.length === 1 ? selectedGoalIds[0] : undefined;
+
+    // when goals are shown as rows, the goal row fields are built from the metrics of each goal
+    let fieldsToFetch = requestedFields;
+    if (goalPivot) {
+      fieldsToFetch = requestedFields.filter(({ name }) => !GOAL_PIVOT_DIMENSIONS[name] && !GOAL_PIVOT_METRICS[name]);
+      requestedFields
+        .filter(({ name }) => GOAL_PIVOT_METRICS[name])
+        .forEach(({ name }) => {
+          Object.values(goals || {}).forEach((goal) => {
+            fieldsToFetch.push({ name: `goal_${goal.idgoal}_${GOAL_PIVOT_METRICS[name].goalMetric}` });
+          });
+        });
+    }
+
+    // the archiving time is only present in the output of some reports, under a different name
+    fieldsToFetch = fieldsToFetch
+      .filter(({ name }) => name !== 'is_partial_period')
+      .map(({ name }) => ({ name: name === 'last_archived_at' ? 'ts_archived' : name }));
+
+    // date ranges can only be fetched as the periods within them if the data for each period can be added up
+    const isCombinePeriods = request.configParams.combine_periods === true
+      || `${request.configParams.combine_periods}` === 'true';
+    const canCombinePeriods = isCombinePeriods
+      && !COMPARISONS[request.configParams.comparison]
+      && !request.configParams.filter_limit
+      && hierarchyDepth === 0
+      && !goalPivot
+      && requestedFieldObjects.every((f) => f.isDimension() || f.getAggregation() === cc.AggregationType.SUM);
+    const combinableMetrics = canCombinePeriods
+      ? requestedFieldObjects.filter((f) => !f.isDimension()).map((f) => f.getId())
+      : null;
+
+    let reportData: ReturnType<typeof getReportData> = null;
+    try {
+      reportData = getReportData(request, fieldsToFetch, {
+        filterParams,
+        sites,
+        hierarchyDepth,
+        segments,
+        idGoal,
+        combinableMetrics,
+      });
+    } catch (e) {
+      rethrowReportDataError(e);
+    }
     if (reportData === null) {
       const reportParams = JSON.parse(request.configParams.report);
       throwUnexpectedError(new Error(`The "${reportParams.apiModule}.${reportParams.apiAction}" report cannot be found in the Matomo's report metadata.`), 'getData()');
@@ -561,10 +1563,63 @@ export function getData(request: GoogleAppsScript.Data_Studio.Request<ConnectorP
     // in an array in this case
     reportData = Array.isArray(reportData) ? reportData : [reportData];
 
-    const data = reportData.map((row) => {
+    if (goalPivot) {
+      reportData = pivotGoalRows(reportData, goals);
+    }
+
+    if (sites) {
+      reportData = reportData.map((row) => {
+        const site = sites.find((s) => `${s.idsite}` === `${row.idsite}`);
+        return { ...row, site_name: site?.name, site_main_url: site?.main_url };
+      });
+    }
+
+    if (Object.keys(geoDimensions).length) {
+      reportData = reportData.map((row) => {
+        const geoValues = {};
+        Object.entries(geoDimensions).forEach(([id, { getValue }]) => {
+          geoValues[id] = getValue(row);
+        });
+        return { ...row, ...geoValues };
+      });
+    }
+
+    if (requestedFields.some(({ name }) => ROW_METADATA_DIMENSIONS[name])) {
+      const instanceUrl = Api.getInstanceUrl();
+      reportData = reportData.map((row) => ({ ...row, ...getRowMetadataValues(row, instanceUrl) }));
+    }
+
+    // dates and times are displayed in the timezone of the site a row belongs to
+    const getRowTimezone = (row: DataTableRow) => (
+      sites ? sites.find((s) => `${s.idsite}` === `${row.idsite}`)?.timezone : siteTimezone
+    );
+
+    // rows only have a date if a date dimension is requested, in which case they are for the period fetched for it
+    const dateDimensionIds = requestedFields.map(({ name }) => name).filter((name) => DATE_DIMENSIONS[name]);
+    const period = dateDimensionIds.length ? getMatomoPeriodForDateDimensions(dateDimensionIds) : 'range';
+
+    if (requestedFields.some(({ name }) => FRESHNESS_DIMENSIONS[name])) {
+      const todayByTimezone: Record<string, string> = {};
+      const getToday = (timezone?: string) => {
+        todayByTimezone[timezone || ''] = todayByTimezone[timezone || ''] || getTodayInTimezone(timezone);
+        return todayByTimezone[timezone || ''];
+      };
+
+      reportData = reportData.map((row) => {
+        const date = dateDimensionIds.length && row.date ? `${row.date}` : request.dateRange.endDate;
+        return {
+          ...row,
+          is_partial_period: isPartialPeriod(period, date, getToday(getRowTimezone(row))) ? 'true' : 'false',
+          last_archived_at: row.ts_archived ? `${row.ts_archived}`.replace(/[-:\s]/g, '') : undefined,
+        };
+      });
+    }
+
+    let data = reportData.map((row) => {
       const fieldValues = requestedFields
         .map(({ name }, index) => {
-          let matomoType = reportMetadata?.metricTypes?.[name];
+          // metrics for compared periods are formatted the same way as the original metric
+          let matomoType = reportMetadata?.metricTypes?.[name.replace(/^prev_/, '')];
           if (DATE_DIMENSIONS[name]) {
             matomoType = name;
             name = 'date';
@@ -577,25 +1632,15 @@ export function getData(request: GoogleAppsScript.Data_Studio.Request<ConnectorP
             // perform any transformations on the value required by the Matomo type
             if (matomoType === 'duration_ms') {
               value = parseInt(value as string, 10) / 1000;
-            } else if (matomoType === 'date') {
-              // value is in YYYY-MM-DD format, but must be converted to YYYYMMDD
-              value = value.toString().replace(/-/g, '');
-            } else if (matomoType === 'date_month') {
-              // value is in YYYY-MM-DD format, but must be converted to YYYYMM
-              value = value.toString().split('-').slice(0, 2).join('');
-            } else if (matomoType === 'date_week') {
-              // value is in YYYY-MM-DD, but must be converted to YYYYww
-              const start = value.split(',')[0];
-              value = start.toString().split('-').shift() + dayjs(start).week().toString().padStart(2, '0');
-            } else if (matomoType === 'date_year') {
-              value = value.toString().split('-').shift();
+            } else if (DATE_DIMENSIONS[matomoType]) {
+              // value is in YYYY-MM-DD format, but must be converted to the format of the date dimension
+              value = formatDateDimensionValue(matomoType, value.toString());
             } else if (matomoType === 'datetime') {
               // value is in YYYY-MM-DD HH:MM:SS format, but must be converted to YYYYMMDDHHMMSS
               value = value.toString().replace(/[-:\s]/g, '');
             } else if (matomoType === 'timestamp') {
-              // value is a timestamp, but must be converted to YYYYMMDDHHMMSS
-              const d = new Date(parseInt(value as string, 10));
-              value = `${d.getUTCFullYear()}${d.getUTCMonth() + 1}${d.getUTCDate()}${d.getUTCHours()}${d.getUTCMinutes()}${d.getUTCSeconds()}`;
+              // value is a timestamp, but must be converted to YYYYMMDDHHMMSS in the site's timezone
+              value = formatTimestamp(parseInt(value as string, 10), getRowTimezone(row));
             }
 
             // NOTE: the value MUST be a string, even if it's declared a number or something else. Looker studio will
@@ -614,7 +1659,7 @@ export function getData(request: GoogleAppsScript.Data_Studio.Request<ConnectorP
           }
 
           const type = field.getType();
-          if (type === cc.FieldType.TEXT) {
+          if (type === cc.FieldType.TEXT || field.isDimension()) {
             return '';
           }
 
@@ -626,10 +1671,22 @@ export function getData(request: GoogleAppsScript.Data_Studio.Request<ConnectorP
       };
     });
 
+    // date dimensions like the quarter have the same value for the rows of multiple periods
+    if (dateDimensionIds.some((id) => isDateDimensionSpanningPeriods(id, period))) {
+      const columns = requestedFieldObjects.map((field) => {
+        if (field.isDimension()) {
+          return 'dimension';
+        }
+        return field.getAggregation() === cc.AggregationType.SUM ? 'sum' : 'none';
+      });
+
+      data = reaggregateRows(data.map(({ values }) => values), columns).map((values) => ({ values }));
+    }
+
     const result = {
       schema: fields.build(),
       rows: data,
-      filtersApplied: false,
+      filtersApplied,
     };
 
     debugLog('getData(): result is', { ...result, rows: 'redacted' });
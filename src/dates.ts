@@ -0,0 +1,345 @@
+/**
+ * Matomo - free/libre analytics platform
+ *
+ * @link https://matomo.org
+ * @license http://www.gnu.org/licenses/gpl-3.0.html GPL v3 or later
+ */
+
+import dayjs from 'dayjs/esm';
+import isoWeek from 'dayjs/esm/plugin/isoWeek';
+import cc from './connector';
+
+dayjs.extend(isoWeek);
+
+const DATE_DIMENSIONS_GROUP = 'Date Dimensions';
+
+// each date dimension is fetched for the least granular Matomo period that can feed it. spansPeriods is set
+// when several of those periods map to the same value (eg, the three months of a quarter).
+export const DATE_DIMENSIONS: Record<string, {
+  name: string,
+  type: GoogleAppsScript.Data_Studio.FieldType,
+  period: string,
+  daysInPeriod: number,
+  spansPeriods?: boolean,
+}> = {
+  date: {
+    name: 'Date',
+    type: cc.FieldType.YEAR_MONTH_DAY,
+    period: 'day',
+    daysInPeriod: 1,
+  },
+  date_month: {
+    name: 'Month',
+    type: cc.FieldType.YEAR_MONTH,
+    period: 'month',
+    daysInPeriod: 30,
+  },
+  date_week: {
+    name: 'Week (Mon - Sun)',
+    type: cc.FieldType.YEAR_WEEK,
+    period: 'week',
+    daysInPeriod: 7,
+  },
+  date_year: {
+    name: 'Year',
+    type: cc.FieldType.YEAR,
+    period: 'year',
+    daysInPeriod: 365,
+  },
+  date_quarter: {
+    name: 'Quarter',
+    type: cc.FieldType.YEAR_QUARTER,
+    period: 'month',
+    daysInPeriod: 30,
+    spansPeriods: true,
+  },
+  date_day_of_week: {
+    name: 'Day of Week',
+    type: cc.FieldType.DAY_OF_WEEK,
+    period: 'day',
+    daysInPeriod: 1,
+    spansPeriods: true,
+  },
+  date_month_of_year: {
+    name: 'Month of Year',
+    type: cc.FieldType.MONTH,
+    period: 'month',
+    daysInPeriod: 30,
+    spansPeriods: true,
+  },
+};
+
+export function addDateDimensions(
+  fields: GoogleAppsScript.Data_Studio.Fields,
+  includeOnly: string[] = Object.keys(DATE_DIMENSIONS),
+) {
+  includeOnly.forEach((id) => {
+    if (!DATE_DIMENSIONS[id]) {
+      return;
+    }
+
+    fields
+      .newDimension()
+      .setId(id)
+      .setName(DATE_DIMENSIONS[id].name)
+      .setType(DATE_DIMENSIONS[id].type)
+      .setGroup(DATE_DIMENSIONS_GROUP);
+  });
+}
+
+/**
+ * Returns the Matomo period to fetch so every one of the requested date dimensions can be computed.
+ *
+ * 'date' is always requested along with the other date dimensions, so it is only used if no other date
+ * dimension is requested. if the other dimensions need different periods (eg, weeks and months), days
+ * are fetched, since they can feed any date dimension.
+ *
+ * @param dimensionIds the IDs of the requested date dimensions
+ */
+export function getMatomoPeriodForDateDimensions(dimensionIds: string[]) {
+  const periods = dimensionIds
+    .filter((id) => DATE_DIMENSIONS[id] && id !== 'date')
+    .map((id) => DATE_DIMENSIONS[id].period)
+    .filter((period, index, all) => all.indexOf(period) === index);
+
+  if (periods.length === 1) {
+    return periods[0];
+  }
+
+  return 'day';
+}
+
+/**
+ * Returns true if a date dimension's values can span multiple of the Matomo periods fetched for it, in which
+ * case the rows for those periods must be reaggregated.
+ */
+export function isDateDimensionSpanningPeriods(dimensionId: string, period: string) {
+  if (!DATE_DIMENSIONS[dimensionId] || dimensionId === 'date') {
+    return false;
+  }
+
+  return DATE_DIMENSIONS[dimensionId].spansPeriods || DATE_DIMENSIONS[dimensionId].period !== period;
+}
+
+/**
+ * Converts a Matomo date (or the start of a Matomo date range) in YYYY-MM-DD format to the format
+ * Looker Studio expects for one of the DATE_DIMENSIONS.
+ *
+ * @param dimensionId the ID of the date dimension, eg, 'date_month'
+ * @param value a date like '2023-02-15' or a range like '2023-02-13,2023-02-19'
+ */
+export function formatDateDimensionValue(dimensionId: string, value: string) {
+  const start = value.split(',')[0];
+
+  if (dimensionId === 'date_month') {
+    // must be converted to YYYYMM
+    return start.split('-').slice(0, 2).join('');
+  }
+
+  if (dimensionId === 'date_week') {
+    // must be converted to YYYYww, using ISO weeks like Matomo does
+    const day = dayjs(start);
+    return `${day.isoWeekYear()}${`${day.isoWeek()}`.padStart(2, '0')}`;
+  }
+
+  if (dimensionId === 'date_year') {
+    return start.split('-').shift();
+  }
+
+  if (dimensionId === 'date_quarter') {
+    // must be converted to YYYYQ
+    return `${start.split('-').shift()}${Math.floor((parseInt(start.split('-')[1] || '1', 10) - 1) / 3) + 1}`;
+  }
+
+  if (dimensionId === 'date_day_of_week') {
+    // must be converted to D, where 0 is Sunday
+    return `${dayjs(start).day()}`;
+  }
+
+  if (dimensionId === 'date_month_of_year') {
+    // must be converted to MM
+    return (start.split('-')[1] || '01').padStart(2, '0');
+  }
+
+  // must be converted to YYYYMMDD
+  return value.replace(/-/g, '');
+}
+
+/**
+ * Returns the first and last day of the Matomo period a date belongs to, in YYYY-MM-DD format.
+ *
+ * Dates are calendar dates in the site's timezone, so the math is done on the date strings alone and does
+ * not depend on the timezone of the Apps Script runtime.
+ *
+ * exported for tests
+ *
+ * @param period the Matomo period, eg, 'week'
+ * @param date a date like '2023-02-15' or the start of a period like '2023-02'
+ */
+export function getMatomoPeriodDateRange(period: string, date: string) {
+  const day = dayjs(date);
+
+  if (period === 'day') {
+    return [day.format('YYYY-MM-DD'), day.format('YYYY-MM-DD')];
+  }
+
+  if (period === 'week') {
+    const daysToMonday = (day.day() + 6) % 7;
+    const startWeek = day.subtract(daysToMonday, 'day');
+    return [startWeek.format('YYYY-MM-DD'), startWeek.add(6, 'day').format('YYYY-MM-DD')];
+  }
+
+  if (period === 'month') {
+    return [day.startOf('month').format('YYYY-MM-DD'), day.endOf('month').format('YYYY-MM-DD')];
+  }
+
+  if (period === 'year') {
+    return [day.startOf('year').format('YYYY-MM-DD'), day.endOf('year').format('YYYY-MM-DD')];
+  }
+
+  throw new Error(`unknown matomo period ${period}`);
+}
+
+// exported for tests
+export function detectMatomoPeriodFromRange(dateRange: GoogleAppsScript.Data_Studio.DateRange) {
+  const standardMatomoPeriods = ['day', 'week', 'month', 'year'];
+  const periodMatch = standardMatomoPeriods.find((period) => {
+    const [matomoPeriodStart, matomoPeriodEnd] = getMatomoPeriodDateRange(period, dateRange.startDate);
+    return dateRange.startDate === matomoPeriodStart && dateRange.endDate === matomoPeriodEnd;
+  });
+  return periodMatch;
+}
+
+function addDays(date: string, days: number) {
+  return dayjs(date).add(days, 'day').format('YYYY-MM-DD');
+}
+
+/**
+ * Splits a date range into whole years, months, weeks and days, using the largest periods possible. Unlike
+ * arbitrary ranges, these periods are usually already archived by Matomo.
+ *
+ * exported for tests
+ *
+ * @param startDate the first day of the range, in YYYY-MM-DD format
+ * @param endDate the last day of the range, in YYYY-MM-DD format
+ * @param periods the periods to split the range into other than days, from the largest to the smallest
+ */
+export function decomposeDateRange(
+  startDate: string,
+  endDate: string,
+  periods: string[] = ['year', 'month', 'week'],
+): { period: string, date: string }[] {
+  if (startDate > endDate) {
+    return [];
+  }
+
+  if (!periods.length) {
+    const days = [];
+    for (let day = startDate; day <= endDate; day = addDays(day, 1)) {
+      days.push({ period: 'day', date: day });
+    }
+    return days;
+  }
+
+  const [period, ...smallerPeriods] = periods;
+
+  // find the whole periods within the range
+  const wholePeriods = [];
+  let [periodStart, periodEnd] = getMatomoPeriodDateRange(period, startDate);
+  if (periodStart < startDate) {
+    [periodStart, periodEnd] = getMatomoPeriodDateRange(period, addDays(periodEnd, 1));
+  }
+
+  while (periodEnd <= endDate) {
+    wholePeriods.push({ period, date: periodStart });
+    [periodStart, periodEnd] = getMatomoPeriodDateRange(period, addDays(periodEnd, 1));
+  }
+
+  if (!wholePeriods.length) {
+    return decomposeDateRange(startDate, endDate, smallerPeriods);
+  }
+
+  const firstWholePeriodStart = wholePeriods[0].date;
+  return [
+    ...decomposeDateRange(startDate, addDays(firstWholePeriodStart, -1), smallerPeriods),
+    ...wholePeriods,
+    ...decomposeDateRange(periodStart, endDate, smallerPeriods),
+  ];
+}
+
+/**
+ * Splits a date range into at most `maxChunks` smaller ranges that each contain whole Matomo periods (except
+ * for the first and last, which start and end with the range), so they can be fetched independently.
+ *
+ * exported for tests
+ *
+ * @param startDate the first day of the range, in YYYY-MM-DD format
+ * @param endDate the last day of the range, in YYYY-MM-DD format
+ * @param period the Matomo period the range is fetched for, eg, 'week'
+ * @param maxChunks the maximum number of ranges to return
+ * @return ranges like `{ date: '2023-02-13,2023-02-26', numberOfPeriods: 2 }`
+ */
+export function splitDateRangeIntoChunks(startDate: string, endDate: string, period: string, maxChunks: number) {
+  const periodStarts: string[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(getMatomoPeriodDateRange(period, date)[1], 1)) {
+    periodStarts.push(date);
+  }
+
+  const periodsPerChunk = Math.ceil(periodStarts.length / Math.max(maxChunks, 1));
+
+  const chunks: { date: string, numberOfPeriods: number }[] = [];
+  for (let i = 0; i < periodStarts.length; i += periodsPerChunk) {
+    const chunkPeriodStarts = periodStarts.slice(i, i + periodsPerChunk);
+    const chunkEnd = i + periodsPerChunk < periodStarts.length ? addDays(periodStarts[i + periodsPerChunk], -1) : endDate;
+    chunks.push({ date: `${chunkPeriodStarts[0]},${chunkEnd}`, numberOfPeriods: chunkPeriodStarts.length });
+  }
+  return chunks;
+}
+
+/**
+ * Returns the last day of the Matomo period a date belongs to, in YYYY-MM-DD format.
+ *
+ * @param period the Matomo period, eg, 'week'
+ * @param date a date like '2023-02-15', the start of a period like '2023-02' or a range like '2023-02-13,2023-02-19'
+ */
+export function getPeriodEndDate(period: string, date: string) {
+  const [start, end] = date.split(',');
+  if (end || period === 'range') {
+    return end || start;
+  }
+
+  return getMatomoPeriodDateRange(period, start)[1];
+}
+
+// Matomo allows manual UTC offsets like 'UTC+5.5' as timezones, which must be converted to 'GMT+05:30'
+function getJavaTimezone(matomoTimezone?: string) {
+  const m = /^UTC([+-])(\d+(?:\.\d+)?)$/.exec(matomoTimezone || '');
+  if (!m) {
+    return matomoTimezone || 'UTC';
+  }
+
+  const offset = parseFloat(m[2]);
+  const hours = Math.floor(offset);
+  const minutes = Math.round((offset - hours) * 60);
+  return `GMT${m[1]}${`${hours}`.padStart(2, '0')}:${`${minutes}`.padStart(2, '0')}`;
+}
+
+/**
+ * Returns the current date in a Matomo site's timezone, in YYYY-MM-DD format.
+ */
+export function getTodayInTimezone(matomoTimezone?: string) {
+  return Utilities.formatDate(new Date(), getJavaTimezone(matomoTimezone), 'yyyy-MM-dd');
+}
+
+/**
+ * Converts a unix timestamp to the YYYYMMDDHHMMSS format Looker Studio expects for YEAR_MONTH_DAY_SECOND
+ * fields, in a Matomo site's timezone.
+ *
+ * exported for tests
+ *
+ * @param timestampMs the timestamp in milliseconds
+ * @param matomoTimezone the site's timezone, eg, 'Europe/Berlin' or 'UTC+5.5'
+ */
+export function formatTimestamp(timestampMs: number, matomoTimezone?: string) {
+  return Utilities.formatDate(new Date(timestampMs), getJavaTimezone(matomoTimezone), 'yyyyMMddHHmmss');
+}
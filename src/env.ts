@@ -13,6 +13,7 @@ export default <Record<string, string>>{
   DEBUG: properties.getProperty('DEBUG') || env?.DEBUG || '0',
   CONFIG_REQUEST_CACHE_TTL_SECS: properties.getProperty('CONFIG_REQUEST_CACHE_TTL_SECS') || env?.CONFIG_REQUEST_CACHE_TTL_SECS || '60',
   MAX_ROWS_TO_FETCH_PER_REQUEST: properties.getProperty('MAX_ROWS_TO_FETCH_PER_REQUEST') || env?.MAX_ROWS_TO_FETCH_PER_REQUEST || '1000',
+  MAX_CONCURRENT_REQUESTS: properties.getProperty('MAX_CONCURRENT_REQUESTS') || env?.MAX_CONCURRENT_REQUESTS || '10',
   SCRIPT_RUNTIME_LIMIT: properties.getProperty('SCRIPT_RUNTIME_LIMIT') || env?.SCRIPT_RUNTIME_LIMIT || '350',
   API_REQUEST_SOURCE_IDENTIFIER: properties.getProperty('API_REQUEST_SOURCE_IDENTIFIER') || env?.API_REQUEST_SOURCE_IDENTIFIER || 'fromLooker',
   API_REQUEST_RETRY_LIMIT_IN_SECS: properties.getProperty('API_REQUEST_RETRY_LIMIT_IN_SECS') || env?.API_REQUEST_RETRY_LIMIT_IN_SECS || '120',
@@ -12,6 +12,100 @@ const FORUM_URL = 'https://forum.matomo.org/c/looker-studio/25';
 
 export class UserFacingError extends Error {}
 
+export type MatomoApiErrorClassification = 'random' | 'non-random' | 'auth' | 'plugin-disabled' | 'quota';
+
+const MAX_API_ERROR_BODY_LENGTH = 100;
+
+interface MatomoApiErrorDetails {
+  method: string;
+  params?: Record<string, string>;
+  apiMessage: string;
+  httpCode?: number;
+  body?: string;
+  retryAfterMs?: number|null; // the Retry-After sent by the server, in milliseconds
+  classification: MatomoApiErrorClassification;
+}
+
+function sanitizeApiParams(params: Record<string, string>) {
+  return Object.fromEntries(Object.entries(params).map(([name, value]) => [
+    name,
+    /token|password|auth/i.test(name) ? '***' : value,
+  ]));
+}
+
+/**
+ * An error returned by Matomo for a single API request.
+ */
+export class MatomoApiError extends Error {
+  readonly isMatomoApiError = true;
+
+  readonly method: string;
+
+  readonly params: Record<string, string>;
+
+  readonly apiMessage: string;
+
+  readonly httpCode?: number;
+
+  readonly body?: string;
+
+  readonly retryAfterMs?: number|null;
+
+  readonly classification: MatomoApiErrorClassification;
+
+  constructor({
+    method,
+    params = {},
+    apiMessage,
+    httpCode,
+    body,
+    retryAfterMs,
+    classification,
+  }: MatomoApiErrorDetails) {
+    const sanitizedParams = sanitizeApiParams(params);
+    super(`API method ${method} failed (params = ${JSON.stringify(sanitizedParams)}): "${apiMessage}".`);
+
+    this.name = 'MatomoApiError';
+    this.method = method;
+    this.params = sanitizedParams;
+    this.apiMessage = apiMessage;
+    this.httpCode = httpCode;
+    this.body = typeof body === 'string' ? body.substring(0, MAX_API_ERROR_BODY_LENGTH) : body;
+    this.retryAfterMs = retryAfterMs;
+    this.classification = classification;
+  }
+}
+
+/**
+ * Thrown when several API requests sent together fail.
+ */
+export class MatomoApiAggregateError extends Error {
+  readonly isMatomoApiError = true;
+
+  readonly errors: MatomoApiError[];
+
+  // the classification shared by every error, or null if they differ
+  readonly classification: MatomoApiErrorClassification|null;
+
+  constructor(errors: MatomoApiError[]) {
+    super(`${errors.length} API methods failed: ${errors.map((e) => `${e.method} (${e.classification}): "${e.apiMessage}"`).join('; ')}.`);
+
+    this.name = 'MatomoApiAggregateError';
+    this.errors = errors;
+    this.classification = errors.every((e) => e.classification === errors[0].classification)
+      ? errors[0].classification
+      : null;
+  }
+}
+
+/**
+ * Determines if an error is a MatomoApiError or MatomoApiAggregateError. (instanceof cannot be relied upon for
+ * Error subclasses when compiling to ES5.)
+ */
+export function isMatomoApiError(e: any): e is MatomoApiError|MatomoApiAggregateError {
+  return !!e?.isMatomoApiError;
+}
+
 /**
  * Throws an error that will be visible to the Looker Studio user. This should be called for
  * errors that are due to simple user errors, eg, not selecting a report or entering the wrong input.
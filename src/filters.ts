@@ -0,0 +1,142 @@
+/**
+ * Matomo - free/libre analytics platform
+ *
+ * @link https://matomo.org
+ * @license http://www.gnu.org/licenses/gpl-3.0.html GPL v3 or later
+ */
+
+type DimensionsFilter = GoogleAppsScript.Data_Studio.DimensionsFilters;
+
+export interface MatomoFilterParams {
+  params: Record<string, string>;
+  filtersApplied: boolean;
+}
+
+// Matomo's Pattern filter matches case-insensitively, while Looker Studio filters are case-sensitive,
+// so we switch PCRE's case insensitivity off for the patterns we generate
+const CASE_SENSITIVE_MODIFIER = '(?-i)';
+
+// note: '/' is not escaped since Matomo escapes the pattern delimiter itself
+function escapeRegex(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Converts a single Looker Studio filter clause into a PCRE pattern that matches a value only if the
+ * clause is satisfied. Returns null if the clause cannot be expressed as a Matomo filter_pattern.
+ */
+function getPatternForClause(clause: DimensionsFilter): string|null {
+  const values = clause.values || [];
+
+  let pattern: string;
+  switch (clause.operator) {
+    case 'EQUALS':
+      if (values.length !== 1) {
+        return null;
+      }
+      pattern = `^${escapeRegex(values[0])}$`;
+      break;
+    case 'CONTAINS':
+      if (values.length !== 1) {
+        return null;
+      }
+      pattern = escapeRegex(values[0]);
+      break;
+    case 'REGEXP_PARTIAL_MATCH':
+      if (values.length !== 1) {
+        return null;
+      }
+      pattern = values[0];
+      break;
+    case 'REGEXP_EXACT_MATCH':
+      if (values.length !== 1) {
+        return null;
+      }
+      pattern = `^(?:${values[0]})$`;
+      break;
+    case 'IN_LIST':
+      if (!values.length) {
+        return null;
+      }
+      pattern = `^(?:${values.map(escapeRegex).join('|')})$`;
+      break;
+    default:
+      // IS_NULL, BETWEEN and numeric comparisons cannot be expressed as a pattern
+      return null;
+  }
+
+  if (clause.type === 'EXCLUDE') {
+    pattern = `^(?![\\s\\S]*?(?:${pattern}))`;
+  }
+
+  return pattern;
+}
+
+/**
+ * Translates the dimension filters Looker Studio sends in getData() requests into Matomo's
+ * `filter_column`/`filter_pattern` generic filter parameters, so rows are filtered before they
+ * are sent to Looker Studio.
+ *
+ * The outer array of filters is ANDed together and each inner array is ORed together. Matomo
+ * only supports a pattern on a single column, so only the filter groups for one column are pushed
+ * down. Looker Studio will still filter the result itself unless every group could be translated.
+ *
+ * @param dimensionsFilters the request's dimensionsFilters property
+ * @param filterableFields IDs of the dimensions that exist as columns in the Matomo report output
+ */
+export function getMatomoFilterParams(
+  dimensionsFilters: DimensionsFilter[][]|undefined,
+  filterableFields: string[],
+): MatomoFilterParams {
+  if (!dimensionsFilters?.length) {
+    return { params: {}, filtersApplied: false };
+  }
+
+  const patternsByColumn: Record<string, string[]> = {};
+  let unsupportedGroupCount = 0;
+
+  dimensionsFilters.forEach((group) => {
+    const columns = (group || [])
+      .map((clause) => clause.fieldName)
+      .filter((fieldName, index, all) => all.indexOf(fieldName) === index);
+    if (columns.length !== 1 || !filterableFields.includes(columns[0])) {
+      unsupportedGroupCount += 1;
+      return;
+    }
+
+    const patterns = group.map(getPatternForClause);
+    if (patterns.some((p) => p === null)) {
+      unsupportedGroupCount += 1;
+      return;
+    }
+
+    const column = columns[0];
+    patternsByColumn[column] = patternsByColumn[column] || [];
+    patternsByColumn[column].push(patterns.length === 1 ? patterns[0] : patterns.map((p) => `(?:${p})`).join('|'));
+  });
+
+  const columns = Object.keys(patternsByColumn);
+  if (!columns.length) {
+    return { params: {}, filtersApplied: false };
+  }
+
+  // prefer the main report dimension, since it is the one most likely to be filtered on
+  const column = columns.includes('label') ? 'label' : columns[0];
+  const groupPatterns = patternsByColumn[column];
+
+  let pattern: string;
+  if (groupPatterns.length === 1) {
+    pattern = groupPatterns[0];
+  } else {
+    // AND multiple groups together via lookaheads
+    pattern = `^${groupPatterns.map((p) => `(?=[\\s\\S]*?(?:${p}))`).join('')}`;
+  }
+
+  return {
+    params: {
+      filter_column: column,
+      filter_pattern: `${CASE_SENSITIVE_MODIFIER}${pattern}`,
+    },
+    filtersApplied: unsupportedGroupCount === 0 && columns.length === 1,
+  };
+}
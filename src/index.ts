@@ -5,8 +5,34 @@
  * @license http://www.gnu.org/licenses/gpl-3.0.html GPL v3 or later
  */
 
-export { extractBasicAuthFromUrl, fetchAll, isApiErrorNonRandom } from './api';
+export {
+  classifyApiError,
+  extractBasicAuthFromUrl,
+  fetchAll,
+  isApiErrorNonRandom,
+} from './api';
+export { formatAnnotationValue } from './annotations';
 export * from './auth';
+export {
+  getCacheKey,
+  getCachedValue,
+  purgeCache,
+  putCachedValue,
+} from './cache';
 export * from './config';
 export * from './data';
+export {
+  decomposeDateRange,
+  detectMatomoPeriodFromRange,
+  formatDateDimensionValue,
+  formatTimestamp,
+  getMatomoPeriodDateRange,
+  getMatomoPeriodForDateDimensions,
+  getPeriodEndDate,
+  splitDateRangeIntoChunks,
+} from './dates';
+export { getMatomoFilterParams } from './filters';
+export { formatVisitValue } from './live';
+export { planPageRequests } from './pagination';
+export { getRetryDecision, getRetryDelay, parseRetryAfterHeader } from './retry';
 export * from './services';
@@ -0,0 +1,217 @@
+/**
+ * Matomo - free/libre analytics platform
+ *
+ * @link https://matomo.org
+ * @license http://www.gnu.org/licenses/gpl-3.0.html GPL v3 or later
+ */
+
+import cc, { ConnectorParams } from './connector';
+import * as Api from './api';
+import env from './env';
+import { throwUserError } from './error';
+import { formatTimestamp } from './dates';
+import { fetchAllPages } from './pagination';
+import { getRowLimit, mapMatomoSemanticTypeToLooker } from './data';
+
+type Visit = Record<string, unknown>;
+
+const VISITS_LOG_API_MODULE = 'Live';
+const VISITS_LOG_API_ACTION = 'getLastVisitsDetails';
+
+const pastScriptRuntimeLimitErrorMessage = 'It\'s taking too long to get the visits log. If this continues to occur, '
+  + 'then you may be requesting too many visits. In this case, set a Default Row Limit or select a smaller date range.';
+
+const VISITS_LOG_DIMENSIONS: Record<string, { name: string, type: GoogleAppsScript.Data_Studio.FieldType }> = {
+  idVisit: {
+    name: 'Visit ID',
+    type: cc.FieldType.TEXT,
+  },
+  visitorId: {
+    name: 'Visitor ID',
+    type: cc.FieldType.TEXT,
+  },
+  serverTimestamp: {
+    name: 'Server Time',
+    type: cc.FieldType.YEAR_MONTH_DAY_SECOND,
+  },
+  referrerType: {
+    name: 'Referrer Type',
+    type: cc.FieldType.TEXT,
+  },
+  referrerName: {
+    name: 'Referrer Name',
+    type: cc.FieldType.TEXT,
+  },
+  referrerUrl: {
+    name: 'Referrer URL',
+    type: cc.FieldType.URL,
+  },
+  deviceType: {
+    name: 'Device Type',
+    type: cc.FieldType.TEXT,
+  },
+  browserName: {
+    name: 'Browser',
+    type: cc.FieldType.TEXT,
+  },
+  operatingSystemName: {
+    name: 'Operating System',
+    type: cc.FieldType.TEXT,
+  },
+  country: {
+    name: 'Country',
+    type: cc.FieldType.TEXT,
+  },
+  countryCode: {
+    name: 'Country Code',
+    type: cc.FieldType.COUNTRY_CODE,
+  },
+};
+
+const VISITS_LOG_METRICS: Record<string, { name: string, matomoType: string }> = {
+  actions: {
+    name: 'Actions',
+    matomoType: 'number',
+  },
+  goalConversions: {
+    name: 'Goal Conversions',
+    matomoType: 'number',
+  },
+  totalEcommerceRevenue: {
+    name: 'Revenue',
+    matomoType: 'money',
+  },
+};
+
+/**
+ * Returns the value of the report config param for the visits log, which is listed along with the
+ * processed reports from API.getReportMetadata.
+ */
+export function getVisitsLogReportParam() {
+  return JSON.stringify({ apiModule: VISITS_LOG_API_MODULE, apiAction: VISITS_LOG_API_ACTION });
+}
+
+// exported for tests
+export function formatVisitValue(fieldId: string, value: unknown, siteTimezone?: string) {
+  if (typeof value === 'undefined' || value === null || value === false) {
+    return VISITS_LOG_METRICS[fieldId] ? '0' : '';
+  }
+
+  if (fieldId === 'serverTimestamp') {
+    // value is a unix timestamp in seconds, but must be converted to YYYYMMDDHHMMSS in the site's timezone
+    return formatTimestamp(parseInt(`${value}`, 10) * 1000, siteTimezone);
+  }
+
+  if (fieldId === 'countryCode') {
+    // 'xx' is used by Matomo for unknown countries
+    return value === 'xx' ? '' : `${value}`.toUpperCase();
+  }
+
+  return `${value}`;
+}
+
+function getVisitsLogFields(siteCurrency: string, requestedFields?: string[]) {
+  const fields = cc.getFields();
+
+  const allFields = [...Object.keys(VISITS_LOG_DIMENSIONS), ...Object.keys(VISITS_LOG_METRICS)];
+  (requestedFields?.length ? requestedFields : allFields).forEach((id) => {
+    if (fields.getFieldById(id)) {
+      return;
+    }
+
+    if (VISITS_LOG_DIMENSIONS[id]) {
+      fields
+        .newDimension()
+        .setId(id)
+        .setName(VISITS_LOG_DIMENSIONS[id].name)
+        .setType(VISITS_LOG_DIMENSIONS[id].type);
+    } else if (VISITS_LOG_METRICS[id]) {
+      fields
+        .newMetric()
+        .setId(id)
+        .setName(VISITS_LOG_METRICS[id].name)
+        .setType(mapMatomoSemanticTypeToLooker(VISITS_LOG_METRICS[id].matomoType, siteCurrency))
+        .setIsReaggregatable(true)
+        .setAggregation(cc.AggregationType.SUM);
+    }
+  });
+
+  return fields;
+}
+
+function getSite(idSite: string) {
+  return Api.fetch<Api.Site>('SitesManager.getSiteFromId', { idSite });
+}
+
+function getVisits(request: GoogleAppsScript.Data_Studio.Request<ConnectorParams>) {
+  const maxVisits = getRowLimit(request.configParams);
+
+  // request visits one large chunk at a time to make sure we don't hit the 50mb HTTP response size limit
+  // for apps scripts
+  const visitsToFetchAtATime = parseInt(env.MAX_ROWS_TO_FETCH_PER_REQUEST, 10) || 100000;
+  const limitToUse = maxVisits < 0 ? visitsToFetchAtATime : Math.min(visitsToFetchAtATime, maxVisits);
+
+  const [pages] = fetchAllPages(
+    `${VISITS_LOG_API_MODULE}.${VISITS_LOG_API_ACTION}`,
+    [
+      {
+        idSite: `${request.configParams.idsite}`,
+        period: 'range',
+        date: `${request.dateRange.startDate},${request.dateRange.endDate}`,
+        segment: request.configParams.segment || '',
+        doNotFetchActions: '1',
+      },
+    ],
+    {
+      pageSize: limitToUse,
+      maxRows: maxVisits,
+      hasMorePages: (page) => Array.isArray(page) && page.length >= limitToUse,
+      runtimeLimitAbortMessage: pastScriptRuntimeLimitErrorMessage,
+    },
+  );
+
+  const visits: Visit[] = [];
+  pages.forEach((page) => {
+    visits.push(...(Array.isArray(page) ? page : []));
+  });
+
+  return maxVisits < 0 ? visits : visits.slice(0, maxVisits);
+}
+
+// the visits log is fetched for a single website and segment, so multiple websites or segments are not supported
+function checkVisitsLogConfigParams(configParams: ConnectorParams) {
+  if ((configParams.idsites || '').trim()) {
+    throwUserError('The visits log can only be fetched for a single website. Please go back and clear the "Combine data from multiple Websites/Measurables" selection.');
+  }
+
+  if ((configParams.segments || '').trim()) {
+    throwUserError('The visits log cannot be fetched for multiple segments. Please go back and clear the "Compare Segments" '
+      + 'selection.');
+  }
+}
+
+export function getVisitsLogSchema(request: GoogleAppsScript.Data_Studio.Request<ConnectorParams>) {
+  checkVisitsLogConfigParams(request.configParams);
+
+  const fields = getVisitsLogFields(getSite(request.configParams.idsite)?.currency || '');
+  return { schema: fields.build() };
+}
+
+export function getVisitsLogData(request: GoogleAppsScript.Data_Studio.Request<ConnectorParams>) {
+  checkVisitsLogConfigParams(request.configParams);
+
+  const site = getSite(request.configParams.idsite);
+  const fields = getVisitsLogFields(site?.currency || '', request.fields?.map((f) => f.name));
+
+  const fieldIds = fields.asArray().map((f) => f.getId());
+
+  const rows = getVisits(request).map((visit) => ({
+    values: fieldIds.map((id) => formatVisitValue(id, visit[id], site?.timezone)),
+  }));
+
+  return {
+    schema: fields.build(),
+    rows,
+    filtersApplied: false,
+  };
+}
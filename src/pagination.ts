@@ -0,0 +1,163 @@
+/**
+ * Matomo - free/libre analytics platform
+ *
+ * @link https://matomo.org
+ * @license http://www.gnu.org/licenses/gpl-3.0.html GPL v3 or later
+ */
+
+import * as Api from './api';
+import env from './env';
+import { throwUnexpectedError } from './error';
+
+interface PageChain {
+  nextOffset: number;
+  isDone: boolean;
+  pages: any[];
+  failedAttempts: number; // the number of times in a row the next page could not be fetched
+}
+
+export interface PageRequest {
+  chainIndex: number;
+  offset: number;
+}
+
+interface FetchAllPagesOptions {
+  pageSize: number;
+  maxRows?: number; // the maximum number of rows to fetch for each chain, -1 if there is no maximum
+  maxConcurrency?: number;
+  hasMorePages: (page: any) => boolean; // returns false if the page is the last one, eg, because it isn't full
+  runtimeLimitAbortMessage?: string;
+}
+
+export function getMaxConcurrentRequests() {
+  return Math.max(parseInt(env.MAX_CONCURRENT_REQUESTS, 10) || 1, 1);
+}
+
+/**
+ * Decides which pages to request next. Every unfinished chain gets a request for its next page, then any
+ * remaining slots are used to request the pages after those in advance, spread evenly between chains.
+ * Pages are only requested in advance for chains that already returned a full page, so small reports
+ * only cost one request.
+ *
+ * exported for tests
+ *
+ * @param chains the next offset of each chain, or null if every page of the chain has been fetched
+ * @param pageSize the number of rows in a page
+ * @param maxRows the maximum number of rows to fetch for each chain, -1 if there is no maximum
+ * @param maxConcurrency the maximum number of requests to send at once
+ */
+export function planPageRequests(
+  chains: (number|null)[],
+  pageSize: number,
+  maxRows: number,
+  maxConcurrency: number,
+): PageRequest[] {
+  const requests: PageRequest[] = [];
+  const nextOffsets = [...chains];
+
+  let isAnyRequestAdded = true;
+  while (requests.length < maxConcurrency && isAnyRequestAdded) {
+    isAnyRequestAdded = false;
+
+    nextOffsets.forEach((offset, chainIndex) => {
+      if (offset === null
+        || requests.length >= maxConcurrency
+        || (maxRows >= 0 && offset >= maxRows)
+        || (chains[chainIndex] === 0 && offset > 0) // the size of the chain is not known yet
+      ) {
+        return;
+      }
+
+      requests.push({ chainIndex, offset });
+      nextOffsets[chainIndex] = offset + pageSize;
+      isAnyRequestAdded = true;
+    });
+  }
+
+  return requests;
+}
+
+/**
+ * Fetches every page of multiple independent chains of paginated requests (eg, one for each segment or group
+ * of periods), sending up to `maxConcurrency` requests at once. Since the number of pages is not known in
+ * advance, some pages may be requested after the last one, in which case they are ignored.
+ *
+ * @param method the API method to call, eg, 'Actions.getPageUrls'
+ * @param chainParams the request parameters for each chain, without filter_offset and filter_limit
+ * @param options
+ * @return the pages fetched for each chain, in order
+ */
+export function fetchAllPages(
+  method: string,
+  chainParams: Record<string, string>[],
+  {
+    pageSize,
+    maxRows = -1,
+    maxConcurrency = getMaxConcurrentRequests(),
+    hasMorePages,
+    runtimeLimitAbortMessage,
+  }: FetchAllPagesOptions,
+) {
+  const chains: PageChain[] = chainParams.map(() => ({
+    nextOffset: 0,
+    isDone: false,
+    pages: [],
+    failedAttempts: 0,
+  }));
+
+  while (chains.some((c) => !c.isDone)) {
+    const requests = planPageRequests(
+      chains.map((c) => (c.isDone ? null : c.nextOffset)),
+      pageSize,
+      maxRows,
+      maxConcurrency,
+    );
+
+    const responses = Api.fetchAll(
+      requests.map(({ chainIndex, offset }) => ({
+        method,
+        params: {
+          ...chainParams[chainIndex],
+          filter_limit: `${pageSize}`,
+          filter_offset: `${offset}`,
+        },
+      })),
+      {
+        checkRuntimeLimit: true,
+        runtimeLimitAbortMessage,
+        throwOnFailedRequest: true,
+      },
+    );
+
+    // requests are planned in offset order for every chain, so pages can be processed as they come
+    requests.forEach(({ chainIndex, offset }, requestIndex) => {
+      const chain = chains[chainIndex];
+      if (chain.isDone || offset !== chain.nextOffset) {
+        return; // a previous page was the last one or failed
+      }
+
+      const page = responses[requestIndex];
+      if (!page) {
+        // request failed in some unknown way, the page will be requested again once
+        chain.failedAttempts += 1;
+        if (chain.failedAttempts > 1) {
+          throwUnexpectedError(new Error(`Failed to fetch ${method} (params = ${JSON.stringify(chainParams[chainIndex])}) at offset ${offset}.`), 'pagination');
+        }
+        return;
+      }
+
+      chain.failedAttempts = 0;
+
+      if ((page as any).value === false) {
+        chain.isDone = true; // nothing returned by request
+        return;
+      }
+
+      chain.pages.push(page);
+      chain.nextOffset = offset + pageSize;
+      chain.isDone = !hasMorePages(page) || (maxRows >= 0 && chain.nextOffset >= maxRows);
+    });
+  }
+
+  return chains.map((c) => c.pages);
+}
@@ -0,0 +1,134 @@
+/**
+ * Matomo - free/libre analytics platform
+ *
+ * @link https://matomo.org
+ * @license http://www.gnu.org/licenses/gpl-3.0.html GPL v3 or later
+ */
+
+import env from './env';
+
+export interface RetryStrategy {
+  retryableStatusCodes: number[];
+  initialDelayMs: number;
+  maxDelayMs: number;
+  jitterRatio: number; // between 0 and 1, the portion of each delay that is randomized
+  retryLimitMs: number; // the maximum time to spend retrying, 0 if requests should never be retried
+  runtimeLimitMs: number; // the script runtime after which requests should not be retried, 0 if there is no limit
+}
+
+export interface RetryState {
+  attempt: number; // the number of times the requests were retried so far
+  startTime: number;
+  scriptElapsedTimeMs: number;
+  retryAfterMs?: number|null; // the largest Retry-After value sent by the server, if any
+}
+
+export interface RetryDecision {
+  shouldRetry: boolean;
+  delayMs: number;
+  reason: string;
+  isRuntimeLimitReached?: boolean;
+}
+
+export function getDefaultRetryStrategy(): RetryStrategy {
+  return {
+    retryableStatusCodes: [420, 429, 502, 503, 504],
+    initialDelayMs: 1000,
+    maxDelayMs: 32 * 1000,
+    jitterRatio: 0.5,
+    retryLimitMs: (parseInt(env.API_REQUEST_RETRY_LIMIT_IN_SECS, 10) || 0) * 1000,
+    runtimeLimitMs: (parseInt(env.SCRIPT_RUNTIME_LIMIT, 10) || 0) * 1000,
+  };
+}
+
+/**
+ * Parses the value of a Retry-After header, which can be either a number of seconds or an HTTP date.
+ *
+ * exported for tests
+ *
+ * @return the number of milliseconds to wait, or null if the header is missing or invalid
+ */
+export function parseRetryAfterHeader(value: string|null|undefined, now: number = Date.now()): number|null {
+  if (typeof value !== 'string' || !value.trim()) {
+    return null;
+  }
+
+  value = value.trim();
+
+  if (/^\d+$/.test(value)) {
+    return parseInt(value, 10) * 1000;
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) {
+    return null;
+  }
+
+  return Math.max(date - now, 0);
+}
+
+/**
+ * Returns how long to wait before the next retry. Uses the server's Retry-After hint if there is one, and an
+ * exponential backoff otherwise. In both cases some randomness is added so multiple clients do not retry
+ * at the same time.
+ *
+ * exported for tests
+ *
+ * @param strategy
+ * @param attempt the number of times the requests were retried so far
+ * @param retryAfterMs the Retry-After value sent by the server, if any
+ * @param random a number between 0 and 1
+ */
+export function getRetryDelay(
+  strategy: RetryStrategy,
+  attempt: number,
+  retryAfterMs: number|null = null,
+  random: number = Math.random(),
+) {
+  if (retryAfterMs !== null && retryAfterMs >= 0) {
+    return Math.round(retryAfterMs + strategy.initialDelayMs * strategy.jitterRatio * random);
+  }
+
+  const backoff = Math.min(strategy.initialDelayMs * (2 ** attempt), strategy.maxDelayMs);
+  return Math.round(backoff * (1 - strategy.jitterRatio * random));
+}
+
+/**
+ * Decides whether failed requests should be retried and how long to wait before doing so.
+ *
+ * exported for tests
+ */
+export function getRetryDecision(
+  strategy: RetryStrategy,
+  { attempt, startTime, scriptElapsedTimeMs, retryAfterMs = null }: RetryState,
+  now: number = Date.now(),
+  random: number = Math.random(),
+): RetryDecision {
+  const delayMs = getRetryDelay(strategy, attempt, retryAfterMs, random);
+  const delayDescription = retryAfterMs !== null
+    ? `the server asked to wait ${retryAfterMs / 1000} seconds`
+    : `backoff after ${attempt + 1} attempt(s)`;
+
+  if (now + delayMs > startTime + strategy.retryLimitMs) {
+    return {
+      shouldRetry: false,
+      delayMs,
+      reason: `${delayDescription}, but the retry time limit of ${strategy.retryLimitMs / 1000} seconds would be exceeded`,
+    };
+  }
+
+  if (strategy.runtimeLimitMs > 0 && scriptElapsedTimeMs + delayMs > strategy.runtimeLimitMs) {
+    return {
+      shouldRetry: false,
+      delayMs,
+      isRuntimeLimitReached: true,
+      reason: `${delayDescription}, but the script runtime limit of ${strategy.runtimeLimitMs / 1000} seconds would be exceeded`,
+    };
+  }
+
+  return {
+    shouldRetry: true,
+    delayMs,
+    reason: delayDescription,
+  };
+}
@@ -0,0 +1,39 @@
+/**
+ * Matomo - free/libre analytics platform
+ *
+ * @link https://matomo.org
+ * @license http://www.gnu.org/licenses/gpl-3.0.html GPL v3 or later
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import Clasp from '../utilities/clasp';
+
+describe('annotations', () => {
+  describe('formatAnnotationValue()', () => {
+    const annotation = {
+      date: '2023-02-15',
+      note: 'Released version 2.0',
+      user: 'admin',
+      starred: 1,
+    };
+
+    const testCases = [
+      { fieldId: 'date', annotation, expected: '20230215' },
+      { fieldId: 'date_month', annotation, expected: '202302' },
+      { fieldId: 'date_week', annotation, expected: '202307' },
+      { fieldId: 'date_year', annotation, expected: '2023' },
+      { fieldId: 'note', annotation, expected: 'Released version 2.0' },
+      { fieldId: 'user', annotation, expected: 'admin' },
+      { fieldId: 'starred', annotation, expected: 'true' },
+      { fieldId: 'starred', annotation: { ...annotation, starred: 0 }, expected: 'false' },
+      { fieldId: 'nb_annotations', annotation, expected: '1' },
+    ];
+
+    testCases.forEach(({ fieldId, annotation, expected }) => {
+      it(`should correctly format ${fieldId} (starred = ${annotation.starred})`, async () => {
+        const actual = await Clasp.run('formatAnnotationValue', fieldId, annotation);
+        expect(actual).toEqual(expected);
+      });
+    });
+  });
+});
@@ -7,7 +7,7 @@
 
 import { beforeEach, beforeAll, expect } from '@jest/globals';
 import Clasp from '../utilities/clasp';
-import { makeApiFailureMockServer } from './api/mockServer';
+import { makeApiFailureMockServer, makeBulkRequestMockServer } from './api/mockServer';
 import axios from 'axios';
 
 describe('api', () => {
@@ -272,12 +272,72 @@ describe('api', () => {
             throwOnFailedRequest: true,
           },
         );
-      }).rejects.toHaveProperty('message', 'Exception'); // actual data studio error message does not appear to be accessible
+      }).rejects.toEqual(expect.objectContaining({
+        isMatomoApiError: true,
+        method: 'SomePlugin.someMethod',
+        params: { idSite: '123' },
+        httpCode: 400,
+        body: 'test 400',
+        classification: 'non-random',
+      }));
 
       // check that the request was only made once
       expect(requestCount).toEqual(1);
     });
 
+    it('should throw a quota error once it stops retrying requests that are always rate limited', async () => {
+      if (!process.env.USE_LOCALTUNNEL) {
+        console.log('*** SKIPPING TEST ***');
+        return;
+      }
+
+      let requestCount = 0;
+      server = makeApiFailureMockServer(3000, {
+        onRateLimited() {
+          requestCount += 1;
+        },
+      });
+
+      await waitForMockServer();
+
+      // use the mock server's path that always responds with a 429
+      await Clasp.run('setCredentials', {
+        userToken: {
+          username: `${ tunnel.url }/forced-rate-limit/`,
+          token: 'ignored',
+        },
+      });
+
+      await expect(async () => {
+        await Clasp.run('fetchAll',
+          [
+            {
+              method: 'SomePlugin.someMethod',
+              params: {
+                idSite: '123',
+              },
+            },
+          ],
+          {
+            throwOnFailedRequest: true,
+            retryStrategy: {
+              retryLimitMs: 5000,
+            },
+          },
+        );
+      }).rejects.toEqual(expect.objectContaining({
+        isMatomoApiError: true,
+        method: 'SomePlugin.someMethod',
+        httpCode: 429,
+        body: 'test 429',
+        retryAfterMs: 1000,
+        classification: 'quota',
+      }));
+
+      // check that the request was retried, waiting for as long as the server asked each time
+      expect(requestCount).toBeGreaterThanOrEqual(2);
+    }, 60000);
+
     it('should abort when UrlFetchApp throws an unknown error', async () => {
       if (!process.env.USE_LOCALTUNNEL) {
         console.log('*** SKIPPING TEST ***');
@@ -441,6 +501,70 @@ describe('api', () => {
         );
       }).rejects.toHaveProperty('message', 'Exception'); // actual data studio error message does not appear to be accessible
     });
+
+    it('should send every request in a single bulk request and only retry the ones that randomly failed', async () => {
+      if (!process.env.USE_LOCALTUNNEL) {
+        console.log('*** SKIPPING TEST ***');
+        return;
+      }
+
+      const requestBodies: string[] = [];
+      server = makeBulkRequestMockServer(3000, {
+        onRequest(body) {
+          requestBodies.push(body);
+        },
+      });
+
+      await waitForMockServer();
+
+      await Clasp.run('setCredentials', {
+        userToken: {
+          username: `${ tunnel.url }/`,
+          token: 'ignored',
+        },
+      });
+
+      const response = await Clasp.run('fetchAll',
+        [
+          { method: 'SitesManager.getSiteFromId', params: { idSite: '1' } },
+          { method: 'RandomErrorPlugin.get', params: { idSite: '1' } },
+          { method: 'NonRandomErrorPlugin.get', params: { idSite: '1' } },
+        ],
+        {
+          useBulkRequest: true,
+        },
+      );
+
+      expect(response).toEqual([
+        { value: 'SitesManager.getSiteFromId' },
+        { value: 'RandomErrorPlugin.get' },
+        { result: 'error', message: 'The plugin NonRandomErrorPlugin is not enabled.' },
+      ]);
+
+      // the first request is a bulk request, the retry is a normal one since only one request is left
+      expect(requestBodies).toHaveLength(2);
+      expect(requestBodies[0]).toMatch(/method=API\.getBulkRequest/);
+      expect(requestBodies[1]).toMatch(/method=RandomErrorPlugin\.get/);
+    });
+  });
+
+  describe('classifyApiError()', () => {
+    const testCases = [
+      { message: 'Matomo server failed with code 429.', httpCode: 429, expected: 'quota' },
+      { message: 'Matomo server failed with code 403.', httpCode: 403, expected: 'auth' },
+      { message: 'You can\'t access this resource as it requires \'view\' access for the website id = 3.', expected: 'auth' },
+      { message: 'The plugin Funnels is not enabled.', expected: 'plugin-disabled' },
+      { message: 'Dimension 999 for website 1 does not exist', expected: 'non-random' },
+      { message: 'Matomo server failed with code 500.', httpCode: 500, expected: 'non-random' },
+      { message: 'Mysql server has gone away', expected: 'random' },
+    ];
+
+    testCases.forEach(({ message, httpCode, expected }) => {
+      it(`should classify '${message}' as ${expected}`, async () => {
+        const actual = await Clasp.run('classifyApiError', message, httpCode);
+        expect(actual).toEqual(expected);
+      });
+    });
   });
 
   describe('isApiErrorNonRandom()', function () {
@@ -10,6 +10,7 @@ import Koa from 'koa';
 interface MockServerOptions {
   onRandomError?: () => void;
   onNonRandomError?: () => void;
+  onRateLimited?: () => void;
 }
 
 interface MockMatomo4ServerOptions {
@@ -44,6 +45,17 @@ export function makeApiFailureMockServer(port: number = 3000, options: MockServe
         ctx.body = 'test 400';
         return;
       }
+
+      if (/^\/forced-rate-limit\//.test(pathname)) {
+        if (options.onRateLimited) {
+          options.onRateLimited();
+        }
+
+        ctx.status = 429;
+        ctx.set('Retry-After', '1');
+        ctx.body = 'test 429';
+        return;
+      }
     }
 
     // assumes SitesManager.getSitesIdWithAtLeastViewAccess was called
@@ -100,3 +112,55 @@ export function makeMatomo4MockServer(port: number = 3000, options: MockMatomo4S
 
   return app.listen(port);
 }
+
+interface MockBulkRequestServerOptions {
+  onRequest?: (body: string) => void;
+}
+
+export function makeBulkRequestMockServer(port: number = 3000, options: MockBulkRequestServerOptions = {}) {
+  const app = new Koa();
+
+  let hasReturnedRandomError = false;
+
+  app.use(async (ctx) => {
+    const body = await getBody(ctx.req);
+
+    if (/SitesManager\.getSitesIdWithAtLeastViewAccess/.test(body)) {
+      ctx.status = 200;
+      ctx.body = '[1]';
+      return;
+    }
+
+    if (options.onRequest) {
+      options.onRequest(body);
+    }
+
+    const params = new URLSearchParams(body);
+    const urls: string[] = [];
+    params.forEach((value, key) => {
+      if (/^urls\[\d+\]$/.test(key)) {
+        urls.push(value);
+      }
+    });
+    const requests = params.get('method') === 'API.getBulkRequest' ? urls : [body];
+
+    // the first request for RandomErrorPlugin fails with an error that should be retried
+    const results = requests.map((url) => {
+      if (/NonRandomErrorPlugin/.test(url)) {
+        return { result: 'error', message: 'The plugin NonRandomErrorPlugin is not enabled.' };
+      }
+
+      if (/RandomErrorPlugin/.test(url) && !hasReturnedRandomError) {
+        hasReturnedRandomError = true;
+        return { result: 'error', message: 'random error' };
+      }
+
+      return { value: new URLSearchParams(url).get('method') };
+    });
+
+    ctx.status = 200;
+    ctx.body = JSON.stringify(params.get('method') === 'API.getBulkRequest' ? results : results[0]);
+  });
+
+  return app.listen(port);
+}
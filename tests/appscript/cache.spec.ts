@@ -0,0 +1,64 @@
+/**
+ * Matomo - free/libre analytics platform
+ *
+ * @link https://matomo.org
+ * @license http://www.gnu.org/licenses/gpl-3.0.html GPL v3 or later
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import Clasp from '../utilities/clasp';
+
+describe('cache', () => {
+  // large enough to need multiple cache entries when not compressed
+  const largeValue = Array.from({ length: 3000 }, (_, i) => ({ idgoal: `${i}`, name: `Goal #${i} with a long name` }));
+
+  const testCases = [
+    { description: 'a small compressed value', value: { value: '5.1.0' }, options: {} },
+    { description: 'a small uncompressed value', value: [1, 2, 3], options: { compress: false } },
+    { description: 'a large compressed value', value: largeValue, options: {} },
+    { description: 'a large uncompressed value', value: largeValue, options: { compress: false } },
+  ];
+
+  testCases.forEach(({ description, value, options }, i) => {
+    it(`should be able to store and read ${description}`, async () => {
+      const key = `test.cache.${i}`;
+
+      const saved = await Clasp.run('putCachedValue', key, value, 60, options);
+      expect(saved).toEqual(true);
+
+      const actual = await Clasp.run('getCachedValue', key);
+      expect(actual).toEqual(value);
+    });
+  });
+
+  it('should return null if nothing is cached for the key', async () => {
+    const actual = await Clasp.run('getCachedValue', 'test.cache.missing');
+    expect(actual).toEqual(null);
+  });
+
+  describe('getCacheKey()', () => {
+    it('should produce the same key regardless of the order of the parameters', async () => {
+      const key1 = await Clasp.run('getCacheKey', 'test.name', { idSite: '1', language: 'en' });
+      const key2 = await Clasp.run('getCacheKey', 'test.name', { language: 'en', idSite: '1' });
+      expect(key1).toEqual(key2);
+    });
+
+    it('should produce different keys for different parameters', async () => {
+      const key1 = await Clasp.run('getCacheKey', 'test.name', { idSite: '1', language: 'en' });
+      const key2 = await Clasp.run('getCacheKey', 'test.name', { idSite: '1', language: 'de' });
+      expect(key1).not.toEqual(key2);
+    });
+  });
+
+  it('should remove every value in the current namespace when purging the cache', async () => {
+    const key = await Clasp.run('getCacheKey', 'test.purge');
+
+    const saved = await Clasp.run('putCachedValue', key, [1, 2, 3], 60);
+    expect(saved).toEqual(true);
+
+    await Clasp.run('purgeCache');
+
+    const actual = await Clasp.run('getCachedValue', key);
+    expect(actual).toEqual(null);
+  });
+});
@@ -86,6 +86,155 @@ describe('data', () => {
     }
   });
 
+  describe('getComparisonDateRange', () => {
+    const testCases = [
+      {
+        comparison: 'previous_period',
+        dateRange: { startDate: '2023-02-15', endDate: '2023-02-19' },
+        expected: { startDate: '2023-02-10', endDate: '2023-02-14' },
+      },
+      {
+        comparison: 'previous_period',
+        dateRange: { startDate: '2023-03-01', endDate: '2023-03-01' },
+        expected: { startDate: '2023-02-28', endDate: '2023-02-28' },
+      },
+      {
+        comparison: 'previous_year',
+        dateRange: { startDate: '2023-02-15', endDate: '2023-02-19' },
+        expected: { startDate: '2022-02-15', endDate: '2022-02-19' },
+      },
+      {
+        comparison: 'previous_year',
+        dateRange: { startDate: '2024-02-01', endDate: '2024-02-29' },
+        expected: { startDate: '2023-02-01', endDate: '2023-02-28' },
+      },
+    ];
+
+    testCases.forEach(({ comparison, dateRange, expected }) => {
+      it(`should correctly calculate the ${comparison} range for ${dateRange.startDate} - ${dateRange.endDate}`, async () => {
+        const actual = await Clasp.run('getComparisonDateRange', dateRange, comparison);
+        expect(actual).toEqual(expected);
+      });
+    });
+  });
+
+  describe('isPartialPeriod', () => {
+    const testCases = [
+      { period: 'day', date: '2023-02-15', today: '2023-02-15', expected: true },
+      { period: 'day', date: '2023-02-14', today: '2023-02-15', expected: false },
+      { period: 'week', date: '2023-02-13,2023-02-19', today: '2023-02-15', expected: true },
+      { period: 'week', date: '2023-02-06,2023-02-12', today: '2023-02-15', expected: false },
+      { period: 'month', date: '2023-02', today: '2023-02-28', expected: true },
+      { period: 'month', date: '2023-01', today: '2023-02-01', expected: false },
+      { period: 'year', date: '2022', today: '2022-12-31', expected: true },
+      { period: 'range', date: '2023-02-01', today: '2023-02-15', expected: false },
+    ];
+
+    testCases.forEach(({ period, date, today, expected }) => {
+      it(`should correctly detect whether the ${period} ${date} is partial on ${today}`, async () => {
+        const actual = await Clasp.run('isPartialPeriod', period, date, today);
+        expect(actual).toEqual(expected);
+      });
+    });
+  });
+
+  describe('reaggregateRows', () => {
+    it('should merge rows with the same dimension values', async () => {
+      const actual = await Clasp.run('reaggregateRows', [
+        ['20231', 'Downloads', '10', '0.5'],
+        ['20231', 'Outlinks', '3', '0.2'],
+        ['20231', 'Downloads', '5', '0.4'],
+        ['20232', 'Downloads', '7', '0.1'],
+      ], ['dimension', 'dimension', 'sum', 'none']);
+
+      expect(actual).toEqual([
+        ['20231', 'Downloads', '15', ''],
+        ['20231', 'Outlinks', '3', '0.2'],
+        ['20232', 'Downloads', '7', '0.1'],
+      ]);
+    });
+  });
+
+  describe('getMetricAggregationType', () => {
+    const testCases = [
+      { metricId: 'nb_visits', matomoType: 'number', expected: 'SUM' },
+      { metricId: 'goal_3_revenue', matomoType: 'money', expected: 'SUM' },
+      { metricId: 'prev_nb_hits', matomoType: 'number', expected: 'SUM' },
+      { metricId: 'nb_custom_events', matomoType: 'number', expected: 'SUM' },
+      { metricId: 'nb_custom_ratio', matomoType: 'float', expected: null },
+      { metricId: 'nb_uniq_visitors', matomoType: 'number', expected: null },
+      { metricId: 'nb_users', matomoType: 'number', expected: null },
+      { metricId: 'bounce_rate', matomoType: 'percent', expected: null },
+      { metricId: 'avg_time_on_page', matomoType: 'duration_s', expected: null },
+      { metricId: 'delta_nb_visits', matomoType: 'percent', expected: null },
+    ];
+
+    testCases.forEach(({ metricId, matomoType, expected }) => {
+      it(`should correctly determine the aggregation type of ${metricId}`, async () => {
+        const actual = await Clasp.run('getMetricAggregationType', metricId, matomoType);
+        expect(actual).toEqual(expected);
+      });
+    });
+  });
+
+  describe('getRowMetadataValues', () => {
+    it('should resolve relative logos against the instance URL', async () => {
+      const actual = await Clasp.run('getRowMetadataValues', {
+        label: 'Chrome',
+        logo: 'plugins/Morpheus/icons/dist/browsers/CH.png',
+        segment: 'browserCode==CH',
+        code: 'CH',
+      }, 'https://matomo.example.com');
+      expect(actual).toEqual({
+        row_url: undefined,
+        row_logo: 'https://matomo.example.com/plugins/Morpheus/icons/dist/browsers/CH.png',
+        row_segment: 'browserCode==CH',
+        row_code: 'CH',
+      });
+    });
+
+    it('should leave absolute URLs as they are', async () => {
+      const actual = await Clasp.run('getRowMetadataValues', {
+        label: 'example.org',
+        url: 'https://example.org/',
+        logo: 'https://example.org/favicon.ico',
+      }, 'https://matomo.example.com');
+      expect(actual).toEqual({
+        row_url: 'https://example.org/',
+        row_logo: 'https://example.org/favicon.ico',
+        row_segment: undefined,
+        row_code: undefined,
+      });
+    });
+  });
+
+  describe('pivotGoalRows', () => {
+    it('should create a row for each goal with generic goal metrics', async () => {
+      const rows = [
+        {
+          label: 'Germany',
+          nb_visits: 10,
+          goal_1_nb_conversions: 2,
+          goal_1_revenue: 20,
+          goal_1_conversion_rate: 0.2,
+          goal_ecommerceOrder_nb_conversions: 1,
+          goal_ecommerceOrder_revenue: 99.5,
+          goal_ecommerceOrder_conversion_rate: 0.1,
+        },
+      ];
+      const goals = {
+        1: { idsite: 1, idgoal: 1, name: 'Newsletter' },
+        ecommerceOrder: { idsite: 1, idgoal: 'ecommerceOrder', name: 'Ecommerce order' },
+      };
+
+      const actual = await Clasp.run('pivotGoalRows', rows, goals) as any[];
+      expect(actual.map((r) => [r.label, r.pivot_goal, r.nb_visits, r.pivot_nb_conversions, r.pivot_revenue, r.pivot_conversion_rate])).toEqual([
+        ['Germany', 'Newsletter', 10, 2, 20, 0.2],
+        ['Germany', 'Ecommerce order', 10, 1, 99.5, 0.1],
+      ]);
+    });
+  });
+
   describe('getSchema', () => {
     it('should use the configured language', async () => {
       const result = await Clasp.run('getSchema', {
@@ -99,6 +248,25 @@ describe('data', () => {
       expect(result).toEqual(getExpectedResponse(result, 'schema', 'Actions.getPageTitles_withLanguage'));
     });
 
+    it('should add descriptions and groups to metrics', async () => {
+      const result = await Clasp.run('getSchema', {
+        configParams: {
+          idsite: env.APPSCRIPT_TEST_IDSITE,
+          report: JSON.stringify({ apiModule: 'VisitsSummary', apiAction: 'get' }),
+        },
+      }) as any;
+
+      const visitsField = result.schema.find((f) => f.name === 'nb_visits');
+      expect(visitsField.group).toEqual('Core Metrics');
+      expect(visitsField.description).toBeTruthy();
+
+      const avgTimeOnSiteField = result.schema.find((f) => f.name === 'avg_time_on_site');
+      expect(avgTimeOnSiteField.group).toEqual('Processed Metrics');
+
+      const dateField = result.schema.find((f) => f.name === 'date');
+      expect(dateField.group).toEqual('Date Dimensions');
+    });
+
     it('should report an error if the user does not specify a report', async () => {
       await expect(async () => {
         await Clasp.run('getSchema', {
@@ -121,6 +289,47 @@ describe('data', () => {
       }).rejects.toHaveProperty('message', 'Exception'); // actual data studio error message does not appear to be accessible
     });
 
+    it('should report an error if a report requires a parameter that was not selected', async () => {
+      await expect(async () => {
+        await Clasp.run('getSchema', {
+          configParams: {
+            idsite: env.APPSCRIPT_TEST_IDSITE,
+            report: JSON.stringify({ apiModule: 'CustomReports', apiAction: 'getCustomReport' }),
+          },
+        });
+      }).rejects.toHaveProperty('message', 'Exception'); // actual data studio error message does not appear to be accessible
+    });
+
+    it('should use the selected report parameter if the report does not include it', async () => {
+      const result = await Clasp.run('getSchema', {
+        configParams: {
+          idsite: env.APPSCRIPT_TEST_IDSITE,
+          report: JSON.stringify({ apiModule: 'CustomReports', apiAction: 'getCustomReport' }),
+          idCustomReport: '1',
+        },
+      });
+      expect(result).toEqual(getExpectedResponse(result, 'schema', 'CustomReports.getCustomReport(idCustomReport_1)'));
+    });
+
+    it('should only add per-goal metrics for the selected goals', async () => {
+      const result = await Clasp.run('getSchema', {
+        configParams: {
+          idsite: env.APPSCRIPT_TEST_IDSITE,
+          report: JSON.stringify({ apiModule: 'UserCountry', apiAction: 'getCountry' }),
+          goals: '4,ecommerceOrder',
+        },
+      }) as any;
+
+      const goalMetrics = result.schema
+        .map((f) => f.name)
+        .filter((name) => /^goal_/.test(name));
+      expect(goalMetrics.length).toBeGreaterThan(0);
+      goalMetrics.forEach((name) => {
+        expect(name).toMatch(/^goal_(4|ecommerceOrder)_/);
+      });
+      expect(goalMetrics).toContain('goal_ecommerceOrder_revenue');
+    });
+
     it('should report an error if the (somehow) a non-existant report is specified', async () => {
       await expect(async () => {
         await Clasp.run('getSchema', {
@@ -438,6 +647,93 @@ describe('data', () => {
       expect(result).toEqual(getExpectedResponse(result, 'data', 'Events.getName_withDateDimension_date'));
     });
 
+    it('should fetch data in multiple chunks when the date dimension is requested for a long date range', async () => {
+      await Clasp.setScriptProperties({
+        MAX_CONCURRENT_REQUESTS: '2',
+      }, true);
+
+      let result = await Clasp.run('getData', {
+        configParams: {
+          idsite: env.APPSCRIPT_TEST_IDSITE,
+          report: JSON.stringify({ apiModule: 'Events', apiAction: 'getName' }),
+          filter_limit: 5,
+        },
+        dateRange: {
+          startDate: RANGE_START_DATE_TO_TEST,
+          endDate: RANGE_END_DATE_TO_TEST,
+        },
+        fields: [
+          { name: 'date' },
+          { name: 'nb_events' },
+          { name: 'Events_EventAction' },
+          { name: 'Events_EventName' },
+          { name: 'max_event_value' },
+        ],
+      });
+      expect(result).toEqual(getExpectedResponse(result, 'data', 'Events.getName_withDateDimension_date'));
+    });
+
+    it('should not combine rows from different periods when the date dimension is requested with combined periods', async () => {
+      await Clasp.setScriptProperties({
+        MAX_CONCURRENT_REQUESTS: '2',
+      }, true);
+
+      const request = {
+        configParams: {
+          idsite: env.APPSCRIPT_TEST_IDSITE,
+          report: JSON.stringify({ apiModule: 'Events', apiAction: 'getName' }),
+        },
+        dateRange: {
+          startDate: RANGE_START_DATE_TO_TEST,
+          endDate: RANGE_END_DATE_TO_TEST,
+        },
+        fields: [
+          { name: 'date' },
+          { name: 'Events_EventName' },
+          { name: 'nb_events' },
+        ],
+      };
+
+      const expected = await Clasp.run('getData', request);
+      const actual = await Clasp.run('getData', {
+        ...request,
+        configParams: { ...request.configParams, combine_periods: true },
+      });
+      expect(actual).toEqual(expected);
+    });
+
+    it('should return the same data when a date range is fetched as the archived periods within it', async () => {
+      await Clasp.setScriptProperties({}, true);
+
+      const request = {
+        configParams: {
+          idsite: env.APPSCRIPT_TEST_IDSITE,
+          report: JSON.stringify({ apiModule: 'Events', apiAction: 'getName' }),
+        },
+        dateRange: {
+          startDate: '2023-02-01',
+          endDate: '2023-03-15',
+        },
+        fields: [
+          { name: 'Events_EventName' },
+          { name: 'nb_events' },
+          { name: 'nb_visits' },
+        ],
+      };
+
+      const sortRows = (result: any) => ({
+        ...result,
+        rows: [...result.rows].sort((a, b) => JSON.stringify(a).localeCompare(JSON.stringify(b))),
+      });
+
+      const expected = await Clasp.run('getData', request);
+      const actual = await Clasp.run('getData', {
+        ...request,
+        configParams: { ...request.configParams, combine_periods: true },
+      });
+      expect(sortRows(actual)).toEqual(sortRows(expected));
+    });
+
     it('should correctly fetch a single column from a **.get API method', async () => {
       let result = await Clasp.run('getData', {
         configParams: {
@@ -473,6 +769,162 @@ describe('data', () => {
       expect(result).toEqual(getExpectedResponse(result, 'data', 'API.get_withMultiDayDateRange'));
     });
 
+    it('should add website dimensions to each row when data is fetched for multiple websites', async () => {
+      const result = await Clasp.run('getData', {
+        configParams: {
+          idsite: env.APPSCRIPT_TEST_IDSITE,
+          idsites: 'all',
+          report: JSON.stringify({ apiModule: 'API', apiAction: 'get' }),
+        },
+        dateRange: {
+          startDate: DATE_TO_TEST,
+          endDate: DATE_TO_TEST,
+        },
+        fields: [
+          { name: 'idsite' },
+          { name: 'site_name' },
+          { name: 'nb_visits' },
+        ],
+      }) as any;
+
+      expect(result.schema.map((f) => f.name)).toEqual(['idsite', 'site_name', 'nb_visits']);
+      expect(result.rows.length).toBeGreaterThan(0);
+
+      const testSiteRow = result.rows.find((r) => r.values[0] === `${env.APPSCRIPT_TEST_IDSITE}`);
+      expect(testSiteRow).toBeTruthy();
+      expect(testSiteRow.values[1]).not.toEqual('');
+    });
+
+    it('should add a dimension for each level and the full path when fetching a report hierarchically', async () => {
+      const result = await Clasp.run('getData', {
+        configParams: {
+          idsite: env.APPSCRIPT_TEST_IDSITE,
+          report: JSON.stringify({ apiModule: 'Actions', apiAction: 'getPageUrls' }),
+          filter_limit: 5,
+          hierarchical: true,
+          hierarchy_max_depth: '2',
+        },
+        dateRange: {
+          startDate: DATE_TO_TEST,
+          endDate: DATE_TO_TEST,
+        },
+        fields: [
+          { name: 'label_level_1' },
+          { name: 'label_level_2' },
+          { name: 'label_path' },
+          { name: 'nb_hits' },
+        ],
+      }) as any;
+
+      expect(result.schema.map((f) => f.name)).toEqual(['label_level_1', 'label_level_2', 'label_path', 'nb_hits']);
+      expect(result.rows.length).toBeGreaterThan(0);
+      result.rows.forEach((row) => {
+        expect(row.values[0]).not.toEqual('');
+        expect(row.values[2]).toMatch(/^\//);
+      });
+    });
+
+    it('should add a segment dimension and fetch each segment when comparing segments', async () => {
+      const result = await Clasp.run('getData', {
+        configParams: {
+          idsite: env.APPSCRIPT_TEST_IDSITE,
+          report: JSON.stringify({ apiModule: 'API', apiAction: 'get' }),
+          segments: 'all_visits',
+        },
+        dateRange: {
+          startDate: DATE_TO_TEST,
+          endDate: DATE_TO_TEST,
+        },
+        fields: [
+          { name: 'compared_segment' },
+          { name: 'nb_visits' },
+        ],
+      }) as any;
+
+      expect(result.schema.map((f) => f.name)).toEqual(['compared_segment', 'nb_visits']);
+      expect(result.rows).toHaveLength(1);
+      expect(result.rows[0].values[0]).toEqual('All Visits');
+    });
+
+    it('should add location codes from row metadata when geo dimensions are requested', async () => {
+      const result = await Clasp.run('getData', {
+        configParams: {
+          idsite: env.APPSCRIPT_TEST_IDSITE,
+          report: JSON.stringify({ apiModule: 'UserCountry', apiAction: 'getCity' }),
+          filter_limit: 5,
+        },
+        dateRange: {
+          startDate: DATE_TO_TEST,
+          endDate: DATE_TO_TEST,
+        },
+        fields: [
+          { name: 'label' },
+          { name: 'country_code' },
+          { name: 'city_name' },
+          { name: 'nb_visits' },
+        ],
+      }) as any;
+
+      expect(result.schema.map((f) => f.semantics.semanticType)).toEqual(['TEXT', 'COUNTRY_CODE', 'CITY', 'NUMBER']);
+
+      const sydneyRow = result.rows.find((row) => /^Sydney,/.test(row.values[0]));
+      expect(sydneyRow.values.slice(1, 3)).toEqual(['AU', 'Sydney']);
+    });
+
+    it('should add a row for each goal when goals are shown as rows', async () => {
+      const result = await Clasp.run('getData', {
+        configParams: {
+          idsite: env.APPSCRIPT_TEST_IDSITE,
+          report: JSON.stringify({ apiModule: 'UserCountry', apiAction: 'getCountry' }),
+          filter_limit: 5,
+          goals: '4,5',
+          goal_pivot: true,
+        },
+        dateRange: {
+          startDate: DATE_TO_TEST,
+          endDate: DATE_TO_TEST,
+        },
+        fields: [
+          { name: 'label' },
+          { name: 'pivot_goal' },
+          { name: 'pivot_nb_conversions' },
+        ],
+      }) as any;
+
+      expect(result.schema.map((f) => f.name)).toEqual(['label', 'pivot_goal', 'pivot_nb_conversions']);
+      expect(result.rows.length % 2).toEqual(0);
+      expect(result.rows[0].values[0]).toEqual(result.rows[1].values[0]);
+      expect(result.rows[0].values[1]).not.toEqual(result.rows[1].values[1]);
+    });
+
+    it('should include metrics for the compared period when a comparison is configured', async () => {
+      const result = await Clasp.run('getData', {
+        configParams: {
+          idsite: env.APPSCRIPT_TEST_IDSITE,
+          report: JSON.stringify({ apiModule: 'Actions', apiAction: 'getPageTitles' }),
+          filter_limit: 5,
+          comparison: 'previous_period',
+        },
+        dateRange: {
+          startDate: RANGE_START_DATE_TO_TEST,
+          endDate: RANGE_END_DATE_TO_TEST,
+        },
+        fields: [
+          { name: 'label' },
+          { name: 'nb_hits' },
+          { name: 'prev_nb_hits' },
+          { name: 'delta_nb_hits' },
+        ],
+      }) as any;
+
+      expect(result.schema.map((f) => f.name)).toEqual(['label', 'nb_hits', 'prev_nb_hits', 'delta_nb_hits']);
+      expect(result.schema[3].semantics.semanticType).toEqual('PERCENT');
+      expect(result.rows.length).toBeGreaterThan(0);
+      result.rows.forEach((row) => {
+        expect(Number.isNaN(parseFloat(row.values[2]))).toEqual(false);
+      });
+    });
+
     const methodsTested = {};
     global.ALL_REPORT_METADATA.forEach((r) => {
       if (hasNoMetrics(r)) {
@@ -0,0 +1,207 @@
+/**
+ * Matomo - free/libre analytics platform
+ *
+ * @link https://matomo.org
+ * @license http://www.gnu.org/licenses/gpl-3.0.html GPL v3 or later
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import Clasp from '../utilities/clasp';
+
+describe('dates', () => {
+  describe('getMatomoPeriodDateRange()', () => {
+    const testCases = [
+      { period: 'day', date: '2023-02-15', expected: ['2023-02-15', '2023-02-15'] },
+      { period: 'week', date: '2023-02-15', expected: ['2023-02-13', '2023-02-19'] },
+      { period: 'week', date: '2023-02-13', expected: ['2023-02-13', '2023-02-19'] },
+      { period: 'week', date: '2023-02-19', expected: ['2023-02-13', '2023-02-19'] },
+      { period: 'week', date: '2022-12-29', expected: ['2022-12-26', '2023-01-01'] },
+      { period: 'month', date: '2023-02-15', expected: ['2023-02-01', '2023-02-28'] },
+      { period: 'month', date: '2024-02-01', expected: ['2024-02-01', '2024-02-29'] },
+      { period: 'month', date: '2023-03', expected: ['2023-03-01', '2023-03-31'] },
+      { period: 'year', date: '2022-06-30', expected: ['2022-01-01', '2022-12-31'] },
+      { period: 'year', date: '2022', expected: ['2022-01-01', '2022-12-31'] },
+    ];
+
+    testCases.forEach(({ period, date, expected }) => {
+      it(`should correctly calculate the ${period} that ${date} belongs to`, async () => {
+        const actual = await Clasp.run('getMatomoPeriodDateRange', period, date);
+        expect(actual).toEqual(expected);
+      });
+    });
+  });
+
+  describe('getMatomoPeriodForDateDimensions()', () => {
+    const testCases = [
+      { dimensionIds: ['date'], expected: 'day' },
+      { dimensionIds: ['date', 'date_week'], expected: 'week' },
+      { dimensionIds: ['date', 'date_quarter'], expected: 'month' },
+      { dimensionIds: ['date_quarter', 'date_month_of_year'], expected: 'month' },
+      { dimensionIds: ['date_week', 'date_month'], expected: 'day' },
+      { dimensionIds: ['date_year', 'date_day_of_week'], expected: 'day' },
+    ];
+
+    testCases.forEach(({ dimensionIds, expected }) => {
+      it(`should fetch ${expected} periods for ${dimensionIds.join(', ')}`, async () => {
+        const actual = await Clasp.run('getMatomoPeriodForDateDimensions', dimensionIds);
+        expect(actual).toEqual(expected);
+      });
+    });
+  });
+
+  describe('formatDateDimensionValue()', () => {
+    const testCases = [
+      { dimensionId: 'date', value: '2023-02-15', expected: '20230215' },
+      { dimensionId: 'date_month', value: '2023-02', expected: '202302' },
+      { dimensionId: 'date_week', value: '2023-02-13,2023-02-19', expected: '202307' },
+      { dimensionId: 'date_week', value: '2021-01-01', expected: '202053' },
+      { dimensionId: 'date_week', value: '2024-12-30,2025-01-05', expected: '202501' },
+      { dimensionId: 'date_year', value: '2023', expected: '2023' },
+      { dimensionId: 'date_quarter', value: '2023-02', expected: '20231' },
+      { dimensionId: 'date_quarter', value: '2023-12-31', expected: '20234' },
+      { dimensionId: 'date_day_of_week', value: '2023-02-19', expected: '0' },
+      { dimensionId: 'date_day_of_week', value: '2023-02-15', expected: '3' },
+      { dimensionId: 'date_month_of_year', value: '2023-09', expected: '09' },
+    ];
+
+    testCases.forEach(({ dimensionId, value, expected }) => {
+      it(`should correctly format ${value} for ${dimensionId}`, async () => {
+        const actual = await Clasp.run('formatDateDimensionValue', dimensionId, value);
+        expect(actual).toEqual(expected);
+      });
+    });
+  });
+
+  describe('decomposeDateRange()', () => {
+    const testCases = [
+      {
+        startDate: '2023-01-03',
+        endDate: '2023-03-31',
+        expected: [
+          ...['03', '04', '05', '06', '07', '08'].map((day) => ({ period: 'day', date: `2023-01-${day}` })),
+          { period: 'week', date: '2023-01-09' },
+          { period: 'week', date: '2023-01-16' },
+          { period: 'week', date: '2023-01-23' },
+          { period: 'day', date: '2023-01-30' },
+          { period: 'day', date: '2023-01-31' },
+          { period: 'month', date: '2023-02-01' },
+          { period: 'month', date: '2023-03-01' },
+        ],
+      },
+      {
+        startDate: '2023-02-13',
+        endDate: '2023-02-26',
+        expected: [
+          { period: 'week', date: '2023-02-13' },
+          { period: 'week', date: '2023-02-20' },
+        ],
+      },
+      {
+        startDate: '2022-12-31',
+        endDate: '2024-01-01',
+        expected: [
+          { period: 'day', date: '2022-12-31' },
+          { period: 'year', date: '2023-01-01' },
+          { period: 'day', date: '2024-01-01' },
+        ],
+      },
+      {
+        startDate: '2023-02-15',
+        endDate: '2023-02-16',
+        expected: [
+          { period: 'day', date: '2023-02-15' },
+          { period: 'day', date: '2023-02-16' },
+        ],
+      },
+    ];
+
+    testCases.forEach(({ startDate, endDate, expected }) => {
+      it(`should correctly split ${startDate} - ${endDate} into archived periods`, async () => {
+        const actual = await Clasp.run('decomposeDateRange', startDate, endDate);
+        expect(actual).toEqual(expected);
+      });
+    });
+  });
+
+  describe('splitDateRangeIntoChunks()', () => {
+    const testCases = [
+      {
+        startDate: '2023-01-01',
+        endDate: '2023-01-10',
+        period: 'day',
+        maxChunks: 3,
+        expected: [
+          { date: '2023-01-01,2023-01-04', numberOfPeriods: 4 },
+          { date: '2023-01-05,2023-01-08', numberOfPeriods: 4 },
+          { date: '2023-01-09,2023-01-10', numberOfPeriods: 2 },
+        ],
+      },
+      {
+        startDate: '2023-02-15',
+        endDate: '2023-03-08',
+        period: 'week',
+        maxChunks: 2,
+        expected: [
+          { date: '2023-02-15,2023-02-26', numberOfPeriods: 2 },
+          { date: '2023-02-27,2023-03-08', numberOfPeriods: 2 },
+        ],
+      },
+      {
+        startDate: '2023-01-15',
+        endDate: '2023-03-15',
+        period: 'month',
+        maxChunks: 10,
+        expected: [
+          { date: '2023-01-15,2023-01-31', numberOfPeriods: 1 },
+          { date: '2023-02-01,2023-02-28', numberOfPeriods: 1 },
+          { date: '2023-03-01,2023-03-15', numberOfPeriods: 1 },
+        ],
+      },
+    ];
+
+    testCases.forEach(({ startDate, endDate, period, maxChunks, expected }) => {
+      it(`should correctly split ${startDate} - ${endDate} into at most ${maxChunks} chunks of ${period}s`, async () => {
+        const actual = await Clasp.run('splitDateRangeIntoChunks', startDate, endDate, period, maxChunks);
+        expect(actual).toEqual(expected);
+      });
+    });
+  });
+
+  describe('getPeriodEndDate()', () => {
+    const testCases = [
+      { period: 'day', date: '2023-02-15', expected: '2023-02-15' },
+      { period: 'week', date: '2023-02-13,2023-02-19', expected: '2023-02-19' },
+      { period: 'month', date: '2023-02', expected: '2023-02-28' },
+      { period: 'year', date: '2023', expected: '2023-12-31' },
+      { period: 'range', date: '2023-02-15', expected: '2023-02-15' },
+    ];
+
+    testCases.forEach(({ period, date, expected }) => {
+      it(`should correctly find the end of the ${period} ${date}`, async () => {
+        const actual = await Clasp.run('getPeriodEndDate', period, date);
+        expect(actual).toEqual(expected);
+      });
+    });
+  });
+
+  describe('formatTimestamp()', () => {
+    const timestampMs = 1676448305000; // 2023-02-15 08:05:05 UTC
+
+    const testCases = [
+      { timezone: undefined, expected: '20230215080505' },
+      { timezone: 'UTC', expected: '20230215080505' },
+      { timezone: 'Europe/Berlin', expected: '20230215090505' },
+      { timezone: 'America/Los_Angeles', expected: '20230215000505' },
+      { timezone: 'Pacific/Auckland', expected: '20230215210505' },
+      { timezone: 'UTC+5.5', expected: '20230215133505' },
+      { timezone: 'UTC-9', expected: '20230214230505' },
+    ];
+
+    testCases.forEach(({ timezone, expected }) => {
+      it(`should correctly format a timestamp in the ${timezone} timezone`, async () => {
+        const actual = await Clasp.run('formatTimestamp', timestampMs, timezone);
+        expect(actual).toEqual(expected);
+      });
+    });
+  });
+});
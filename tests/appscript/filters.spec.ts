@@ -0,0 +1,87 @@
+/**
+ * Matomo - free/libre analytics platform
+ *
+ * @link https://matomo.org
+ * @license http://www.gnu.org/licenses/gpl-3.0.html GPL v3 or later
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import Clasp from '../utilities/clasp';
+
+describe('filters', () => {
+  describe('getMatomoFilterParams()', () => {
+    const testCases = [
+      {
+        type: 'no filters',
+        filters: [],
+        expected: { params: {}, filtersApplied: false },
+      },
+      {
+        type: 'a single EQUALS clause',
+        filters: [[{ fieldName: 'label', values: ['index.html'], type: 'INCLUDE', operator: 'EQUALS' }]],
+        expected: {
+          params: { filter_column: 'label', filter_pattern: '(?-i)^index\\.html$' },
+          filtersApplied: true,
+        },
+      },
+      {
+        type: 'an excluded CONTAINS clause',
+        filters: [[{ fieldName: 'label', values: ['/blog'], type: 'EXCLUDE', operator: 'CONTAINS' }]],
+        expected: {
+          params: { filter_column: 'label', filter_pattern: '(?-i)^(?![\\s\\S]*?(?:/blog))' },
+          filtersApplied: true,
+        },
+      },
+      {
+        type: 'ORed IN_LIST and REGEXP_PARTIAL_MATCH clauses',
+        filters: [[
+          { fieldName: 'label', values: ['a', 'b'], type: 'INCLUDE', operator: 'IN_LIST' },
+          { fieldName: 'label', values: ['^c'], type: 'INCLUDE', operator: 'REGEXP_PARTIAL_MATCH' },
+        ]],
+        expected: {
+          params: { filter_column: 'label', filter_pattern: '(?-i)(?:^(?:a|b)$)|(?:^c)' },
+          filtersApplied: true,
+        },
+      },
+      {
+        type: 'ANDed groups on the same dimension',
+        filters: [
+          [{ fieldName: 'label', values: ['a'], type: 'INCLUDE', operator: 'CONTAINS' }],
+          [{ fieldName: 'label', values: ['b'], type: 'INCLUDE', operator: 'CONTAINS' }],
+        ],
+        expected: {
+          params: { filter_column: 'label', filter_pattern: '(?-i)^(?=[\\s\\S]*?(?:a))(?=[\\s\\S]*?(?:b))' },
+          filtersApplied: true,
+        },
+      },
+      {
+        type: 'ANDed groups on different dimensions',
+        filters: [
+          [{ fieldName: 'Events_EventName', values: ['a'], type: 'INCLUDE', operator: 'EQUALS' }],
+          [{ fieldName: 'label', values: ['b'], type: 'INCLUDE', operator: 'EQUALS' }],
+        ],
+        expected: {
+          params: { filter_column: 'label', filter_pattern: '(?-i)^b$' },
+          filtersApplied: false,
+        },
+      },
+      {
+        type: 'an unsupported operator',
+        filters: [[{ fieldName: 'label', values: [], type: 'INCLUDE', operator: 'IS_NULL' }]],
+        expected: { params: {}, filtersApplied: false },
+      },
+      {
+        type: 'a dimension that is not in the report output',
+        filters: [[{ fieldName: 'date', values: ['20230215'], type: 'INCLUDE', operator: 'EQUALS' }]],
+        expected: { params: {}, filtersApplied: false },
+      },
+    ];
+
+    testCases.forEach(({ type, filters, expected }) => {
+      it(`should correctly translate ${type}`, async () => {
+        const actual = await Clasp.run('getMatomoFilterParams', filters, ['label', 'Events_EventName']);
+        expect(actual).toEqual(expected);
+      });
+    });
+  });
+});
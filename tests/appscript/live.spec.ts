@@ -0,0 +1,99 @@
+/**
+ * Matomo - free/libre analytics platform
+ *
+ * @link https://matomo.org
+ * @license http://www.gnu.org/licenses/gpl-3.0.html GPL v3 or later
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import Clasp from '../utilities/clasp';
+import env from '../env';
+
+describe('live', () => {
+  beforeAll(async () => {
+    await Clasp.run('setCredentials', {
+      userToken: {
+        username: env.APPSCRIPT_TEST_MATOMO,
+        token: env.APPSCRIPT_TEST_TOKEN,
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await Clasp.run('clearEnvInTest');
+  });
+
+  describe('formatVisitValue()', () => {
+    const testCases = [
+      { fieldId: 'serverTimestamp', value: 1676448305, expected: '20230215080505' },
+      { fieldId: 'countryCode', value: 'de', expected: 'DE' },
+      { fieldId: 'countryCode', value: 'xx', expected: '' },
+      { fieldId: 'actions', value: 4, expected: '4' },
+      { fieldId: 'totalEcommerceRevenue', value: undefined, expected: '0' },
+      { fieldId: 'referrerName', value: null, expected: '' },
+    ];
+
+    testCases.forEach(({ fieldId, value, expected }) => {
+      it(`should correctly format ${fieldId} = ${value}`, async () => {
+        const actual = await Clasp.run('formatVisitValue', fieldId, value);
+        expect(actual).toEqual(expected);
+      });
+    });
+  });
+
+  describe('getData()', () => {
+    it('should fetch raw visits when the visits log report is selected', async () => {
+      const result = await Clasp.run('getData', {
+        configParams: {
+          idsite: env.APPSCRIPT_TEST_IDSITE,
+          report: JSON.stringify({ apiModule: 'Live', apiAction: 'getLastVisitsDetails' }),
+          filter_limit: 5,
+        },
+        dateRange: {
+          startDate: '2023-02-15',
+          endDate: '2023-02-15',
+        },
+        fields: [
+          { name: 'idVisit' },
+          { name: 'serverTimestamp' },
+          { name: 'actions' },
+        ],
+      }) as any;
+
+      expect(result.schema.map((f) => f.name)).toEqual(['idVisit', 'serverTimestamp', 'actions']);
+      expect(result.rows).toHaveLength(5);
+      result.rows.forEach((row) => {
+        expect(row.values[1]).toMatch(/^202302\d{8}$/);
+      });
+    });
+
+    it('should report an error if multiple websites or segments are selected for the visits log report', async () => {
+      await expect(async () => {
+        await Clasp.run('getData', {
+          configParams: {
+            idsite: env.APPSCRIPT_TEST_IDSITE,
+            idsites: 'all',
+            report: JSON.stringify({ apiModule: 'Live', apiAction: 'getLastVisitsDetails' }),
+          },
+          dateRange: {
+            startDate: '2023-02-15',
+            endDate: '2023-02-15',
+          },
+          fields: [
+            { name: 'idVisit' },
+          ],
+        });
+      }).rejects.toHaveProperty('message', 'Exception'); // actual data studio error message does not appear to be accessible
+
+      await expect(async () => {
+        await Clasp.run('getSchema', {
+          configParams: {
+            idsite: env.APPSCRIPT_TEST_IDSITE,
+            segments: 'all_visits',
+            report: JSON.stringify({ apiModule: 'Live', apiAction: 'getLastVisitsDetails' }),
+          },
+        });
+      }).rejects.toHaveProperty('message', 'Exception');
+    });
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Matomo - free/libre analytics platform
+ *
+ * @link https://matomo.org
+ * @license http://www.gnu.org/licenses/gpl-3.0.html GPL v3 or later
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import Clasp from '../utilities/clasp';
+
+describe('pagination', () => {
+  describe('planPageRequests()', () => {
+    const testCases = [
+      {
+        description: 'request the next page of every chain first',
+        chains: [0, 100, null],
+        maxRows: -1,
+        maxConcurrency: 2,
+        expected: [
+          { chainIndex: 0, offset: 0 },
+          { chainIndex: 1, offset: 100 },
+        ],
+      },
+      {
+        description: 'request the following pages in advance if there are slots left',
+        chains: [0, 200],
+        maxRows: -1,
+        maxConcurrency: 5,
+        expected: [
+          { chainIndex: 0, offset: 0 },
+          { chainIndex: 1, offset: 200 },
+          { chainIndex: 1, offset: 300 },
+          { chainIndex: 1, offset: 400 },
+          { chainIndex: 1, offset: 500 },
+        ],
+      },
+      {
+        description: 'only request the first page of chains that have not returned a page yet',
+        chains: [0, 0],
+        maxRows: -1,
+        maxConcurrency: 10,
+        expected: [
+          { chainIndex: 0, offset: 0 },
+          { chainIndex: 1, offset: 0 },
+        ],
+      },
+      {
+        description: 'not request pages past the maximum number of rows',
+        chains: [100, 0],
+        maxRows: 300,
+        maxConcurrency: 10,
+        expected: [
+          { chainIndex: 0, offset: 100 },
+          { chainIndex: 1, offset: 0 },
+          { chainIndex: 0, offset: 200 },
+        ],
+      },
+      {
+        description: 'not request anything when every chain is done',
+        chains: [null, null],
+        maxRows: -1,
+        maxConcurrency: 10,
+        expected: [],
+      },
+    ];
+
+    testCases.forEach(({ description, chains, maxRows, maxConcurrency, expected }) => {
+      it(`should ${description}`, async () => {
+        const actual = await Clasp.run('planPageRequests', chains, 100, maxRows, maxConcurrency);
+        expect(actual).toEqual(expected);
+      });
+    });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Matomo - free/libre analytics platform
+ *
+ * @link https://matomo.org
+ * @license http://www.gnu.org/licenses/gpl-3.0.html GPL v3 or later
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import Clasp from '../utilities/clasp';
+
+describe('retry', () => {
+  const strategy = {
+    retryableStatusCodes: [429, 503],
+    initialDelayMs: 1000,
+    maxDelayMs: 8000,
+    jitterRatio: 0.5,
+    retryLimitMs: 60000,
+    runtimeLimitMs: 300000,
+  };
+
+  describe('parseRetryAfterHeader()', () => {
+    const now = Date.parse('Wed, 15 Feb 2023 08:00:00 GMT');
+
+    const testCases = [
+      { value: '120', expected: 120000 },
+      { value: ' 5 ', expected: 5000 },
+      { value: 'Wed, 15 Feb 2023 08:00:30 GMT', expected: 30000 },
+      { value: 'Wed, 15 Feb 2023 07:59:00 GMT', expected: 0 },
+      { value: 'soon', expected: null },
+      { value: '', expected: null },
+      { value: null, expected: null },
+    ];
+
+    testCases.forEach(({ value, expected }) => {
+      it(`should correctly parse the Retry-After value "${value}"`, async () => {
+        const actual = await Clasp.run('parseRetryAfterHeader', value, now);
+        expect(actual).toEqual(expected);
+      });
+    });
+  });
+
+  describe('getRetryDelay()', () => {
+    const testCases = [
+      { attempt: 0, retryAfterMs: null, random: 0, expected: 1000 },
+      { attempt: 0, retryAfterMs: null, random: 1, expected: 500 },
+      { attempt: 2, retryAfterMs: null, random: 0.5, expected: 3000 },
+      { attempt: 10, retryAfterMs: null, random: 0, expected: 8000 },
+      { attempt: 0, retryAfterMs: 20000, random: 0, expected: 20000 },
+      { attempt: 3, retryAfterMs: 20000, random: 1, expected: 20500 },
+    ];
+
+    testCases.forEach(({ attempt, retryAfterMs, random, expected }) => {
+      it(`should wait ${expected}ms after attempt ${attempt} (Retry-After = ${retryAfterMs}, random = ${random})`, async () => {
+        const actual = await Clasp.run('getRetryDelay', strategy, attempt, retryAfterMs, random);
+        expect(actual).toEqual(expected);
+      });
+    });
+  });
+
+  describe('getRetryDecision()', () => {
+    const testCases = [
+      {
+        description: 'retry when within every limit',
+        state: { attempt: 1, startTime: 0, scriptElapsedTimeMs: 10000 },
+        now: 10000,
+        expected: { shouldRetry: true, delayMs: 2000 },
+      },
+      {
+        description: 'not retry when the retry time limit would be exceeded',
+        state: { attempt: 1, startTime: 0, scriptElapsedTimeMs: 59000 },
+        now: 59000,
+        expected: { shouldRetry: false, delayMs: 2000 },
+      },
+      {
+        description: 'not retry when the server asks to wait longer than the retry time limit',
+        state: { attempt: 0, startTime: 0, scriptElapsedTimeMs: 1000, retryAfterMs: 120000 },
+        now: 1000,
+        expected: { shouldRetry: false, delayMs: 120000 },
+      },
+      {
+        description: 'not retry when the script runtime limit would be exceeded',
+        state: { attempt: 1, startTime: 0, scriptElapsedTimeMs: 299000 },
+        now: 1000,
+        expected: { shouldRetry: false, delayMs: 2000, isRuntimeLimitReached: true },
+      },
+    ];
+
+    testCases.forEach(({ description, state, now, expected }) => {
+      it(`should ${description}`, async () => {
+        const actual = await Clasp.run('getRetryDecision', strategy, state, now, 0) as { reason: string };
+        expect(actual).toMatchObject(expected);
+        expect(typeof actual.reason).toEqual('string');
+      });
+    });
+  });
+});